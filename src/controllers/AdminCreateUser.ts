@@ -0,0 +1,163 @@
+import { EcoContext } from "@ecoflow/types";
+import { AdminUserAttributes } from "@supabase/supabase-js";
+import selectAdminClient from "../helpers/selectAdminClient";
+
+/**
+ * Creates a new user without sending a confirmation. Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminCreateUser(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    email,
+    Phone,
+    password,
+    uData,
+    appData,
+    emailConfirm,
+    phoneConfirm,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the user attributes based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userPhone = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.phone
+      : payload.msg.phone
+    : Phone;
+  const userPassword = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.password
+      : payload.msg.password
+    : password;
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+  const appMetadata = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.appData
+      : payload.msg.appData
+    : appData || { value: "", validate: false };
+
+  if (!userEmail && !userPhone) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing email or phone.",
+      status: {
+        email: _.isUndefined(userEmail),
+        phone: _.isUndefined(userPhone),
+      },
+    };
+    return;
+  }
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Builds the user attributes from the provided values only, answering malformed metadata JSON with a 400.
+   * @returns None
+   */
+  let attributes: AdminUserAttributes;
+  try {
+    attributes = {
+      ...(userEmail ? { email: userEmail } : {}),
+      ...(userPhone ? { phone: userPhone } : {}),
+      ...(userPassword ? { password: userPassword } : {}),
+      ...(userData?.validate
+        ? { user_metadata: JSON.parse(userData.value) }
+        : {}),
+      ...(appMetadata?.validate
+        ? { app_metadata: JSON.parse(appMetadata.value) }
+        : {}),
+      email_confirm: emailConfirm ? true : false,
+      phone_confirm: phoneConfirm ? true : false,
+    };
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  const { data, error } = await supabase.auth.admin.createUser(attributes);
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "User created successfully.",
+    user: data.user,
+  };
+
+  next();
+}
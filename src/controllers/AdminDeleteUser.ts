@@ -0,0 +1,109 @@
+import { EcoContext } from "@ecoflow/types";
+import selectAdminClient from "../helpers/selectAdminClient";
+
+/**
+ * Deletes a user by its ID, either permanently or as a soft delete. Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminDeleteUser(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, userId, softDelete, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the user ID based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the user ID should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user ID.
+   * @returns None
+   */
+  const uid = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.id
+      : payload.msg.id
+    : userId;
+
+  if (!uid || _.isEmpty(uid)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing user ID.",
+    };
+    return;
+  }
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Deletes the user. A soft deleted user is kept with its identifying data obfuscated.
+   * @param {string} uid - The ID of the user.
+   * @param {boolean} softDelete - Whether the user should be soft deleted.
+   * @returns An object containing data and error from the deletion.
+   */
+  const { data, error } = await supabase.auth.admin.deleteUser(
+    uid,
+    softDelete ? true : false
+  );
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: softDelete
+      ? "User soft deleted successfully."
+      : "User deleted successfully.",
+    user: data.user,
+  };
+
+  next();
+}
@@ -0,0 +1,228 @@
+import { EcoContext } from "@ecoflow/types";
+import { GenerateLinkParams } from "@supabase/supabase-js";
+import selectAdminClient from "../helpers/selectAdminClient";
+import { callbackRouteURL } from "../helpers/registerCallbackRoute";
+
+/**
+ * Generates an email action link without sending it, so it can be delivered by a custom email provider.
+ * The action link of Supabase hands the session over in the URL fragment, which never reaches the server,
+ * so a callback link verifying the hashed token on the callback URL is returned as well.
+ * Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminGenerateLink(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    type,
+    email,
+    newEmail,
+    password,
+    uData,
+    callbackURL,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the link parameters based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userNewEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.newEmail
+      : payload.msg.newEmail
+    : newEmail;
+  const userPassword = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.password
+      : payload.msg.password
+    : password;
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+  const linkType = type || "magiclink";
+
+  if (!userEmail || _.isEmpty(userEmail)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing email.",
+    };
+    return;
+  }
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Recovery links go to the recovery callback of the client configuration, every other link to its OTP callback,
+   * unless a custom callback URL is provided.
+   * @param {string} callbackURL - The custom callback URL.
+   * @returns None
+   */
+  const redirectTo = callbackURL
+    ? callbackURL
+    : callbackRouteURL(client, linkType === "recovery" ? "recovery" : "OTP");
+
+  let data: any;
+  try {
+    data = userData?.validate ? JSON.parse(userData.value) : undefined;
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Builds the link parameters for the selected link type.
+   * If a required value is missing, it sets an error message in the payload.
+   * @returns None
+   */
+  let params: GenerateLinkParams | null = null;
+  switch (linkType) {
+    case "signup":
+      if (userPassword)
+        params = {
+          type: linkType,
+          email: userEmail,
+          password: userPassword,
+          options: { redirectTo, ...(data ? { data } : {}) },
+        };
+      break;
+    case "invite":
+    case "magiclink":
+      params = {
+        type: linkType,
+        email: userEmail,
+        options: { redirectTo, ...(data ? { data } : {}) },
+      };
+      break;
+    case "recovery":
+      params = { type: linkType, email: userEmail, options: { redirectTo } };
+      break;
+    case "email_change_current":
+    case "email_change_new":
+      if (userNewEmail)
+        params = {
+          type: linkType,
+          email: userEmail,
+          newEmail: userNewEmail,
+          options: { redirectTo },
+        };
+      break;
+  }
+
+  if (!params) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing or invalid link parameters.",
+      status: {
+        type: linkType,
+        password: _.isUndefined(userPassword),
+        newEmail: _.isUndefined(userNewEmail),
+      },
+    };
+    return;
+  }
+
+  const { data: linkData, error } = await supabase.auth.admin.generateLink(
+    params
+  );
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Builds the link to send, which passes the hashed token and the link type to the callback URL.
+   * Relative callback URLs are left to the flow, the hashed token is returned either way.
+   * @returns None
+   */
+  let callbackLink: string | undefined;
+  try {
+    const link = new URL(redirectTo);
+    link.searchParams.set("token_hash", linkData.properties.hashed_token);
+    link.searchParams.set("type", linkData.properties.verification_type);
+    callbackLink = link.toString();
+  } catch {
+    callbackLink = undefined;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Link generated successfully.",
+    user: linkData.user,
+    ...(callbackLink ? { callback_link: callbackLink } : {}),
+    action_link: linkData.properties.action_link,
+    email_otp: linkData.properties.email_otp,
+    hashed_token: linkData.properties.hashed_token,
+    redirect_to: linkData.properties.redirect_to,
+    verification_type: linkData.properties.verification_type,
+  };
+
+  next();
+}
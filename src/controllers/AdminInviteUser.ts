@@ -0,0 +1,128 @@
+import { EcoContext } from "@ecoflow/types";
+import selectAdminClient from "../helpers/selectAdminClient";
+
+/**
+ * Sends an invite link to an email address. Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminInviteUser(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, email, uData, redirectTo, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the user email and data based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+
+  if (!userEmail || _.isEmpty(userEmail)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing email.",
+    };
+    return;
+  }
+
+  let metadata: any;
+  try {
+    metadata = userData?.validate ? JSON.parse(userData.value) : undefined;
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Sends the invite link to the email address.
+   * @param {string} userEmail - The email address to invite.
+   * @param {object} options - The user metadata and the redirect URL of the invite link.
+   * @returns An object containing data and error from the invite.
+   */
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(
+    userEmail,
+    {
+      ...(metadata ? { data: metadata } : {}),
+      ...(redirectTo ? { redirectTo } : {}),
+    }
+  );
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "User invited successfully.",
+    user: data.user,
+  };
+
+  next();
+}
@@ -0,0 +1,110 @@
+import { EcoContext } from "@ecoflow/types";
+import selectAdminClient from "../helpers/selectAdminClient";
+
+/**
+ * Lists the users of the project page by page. Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminListUsers(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, page, perPage, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the page and page size based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the values.
+   * @returns None
+   */
+  const listPage = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.page
+      : payload.msg.page
+    : page;
+  const listPerPage = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.perPage
+      : payload.msg.perPage
+    : perPage;
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Lists one page of users.
+   * @param {number} listPage - The page number starting at 1.
+   * @param {number} listPerPage - The number of users per page.
+   * @returns An object containing the users with pagination data and any potential errors.
+   */
+  const { data, error } = await supabase.auth.admin.listUsers({
+    ...(listPage ? { page: Number(listPage) } : {}),
+    ...(listPerPage ? { perPage: Number(listPerPage) } : {}),
+  });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Users listed successfully.",
+    users: data.users,
+    ...("total" in data
+      ? {
+          total: data.total,
+          nextPage: data.nextPage,
+          lastPage: data.lastPage,
+        }
+      : {}),
+  };
+
+  next();
+}
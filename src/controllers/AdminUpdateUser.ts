@@ -0,0 +1,164 @@
+import { EcoContext } from "@ecoflow/types";
+import { AdminUserAttributes } from "@supabase/supabase-js";
+import selectAdminClient from "../helpers/selectAdminClient";
+
+/**
+ * Updates a user by its ID, including its app metadata and ban duration. Requires a service-role client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function AdminUpdateUser(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    userId,
+    email,
+    Phone,
+    password,
+    uData,
+    appData,
+    emailConfirm,
+    phoneConfirm,
+    banDuration,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the user ID and attributes based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const source = fromPayload
+    ? payloadKey
+      ? payload[payloadKey] || {}
+      : payload.msg || {}
+    : {
+        id: userId,
+        email,
+        phone: Phone,
+        password,
+        uData: uData || { value: "", validate: false },
+        appData: appData || { value: "", validate: false },
+        emailConfirm,
+        phoneConfirm,
+        banDuration,
+      };
+
+  if (!source.id || _.isEmpty(source.id)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing user ID.",
+    };
+    return;
+  }
+
+  /**
+   * Builds the user attributes from the provided values only, answering malformed metadata JSON with a 400.
+   * @returns None
+   */
+  let attributes: AdminUserAttributes;
+  try {
+    attributes = {
+      ...(source.email ? { email: source.email } : {}),
+      ...(source.phone ? { phone: source.phone } : {}),
+      ...(source.password ? { password: source.password } : {}),
+      ...(source.uData?.validate
+        ? { user_metadata: JSON.parse(source.uData.value) }
+        : {}),
+      ...(source.appData?.validate
+        ? { app_metadata: JSON.parse(source.appData.value) }
+        : {}),
+      ...(source.emailConfirm ? { email_confirm: true } : {}),
+      ...(source.phoneConfirm ? { phone_confirm: true } : {}),
+      ...(source.banDuration ? { ban_duration: source.banDuration } : {}),
+    };
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  if (_.isEmpty(attributes)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Nothing to update.",
+    };
+    return;
+  }
+
+  const supabase = selectAdminClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error } = await supabase.auth.admin.updateUserById(
+    source.id,
+    attributes
+  );
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "User updated successfully.",
+    user: data.user,
+  };
+
+  next();
+}
@@ -0,0 +1,192 @@
+import { EcoContext } from "@ecoflow/types";
+import { User } from "@supabase/supabase-js";
+import getBearerToken from "../helpers/getBearerToken";
+import verifyAccessToken, {
+  isUserFromClaims,
+} from "../helpers/verifyAccessToken";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import { sessionCookieOptions } from "../helpers/sessionCookies";
+import {
+  failedAuthorizationRule,
+  needsServerUser,
+  parseAuthorizationRules,
+} from "../helpers/authorizationRules";
+import { AuthorizationRule } from "../interface/AuthorizationRule";
+
+/**
+ * Checks a rule set against the authenticated user and the claims of its access token.
+ * Runs after the Oauth isAuthenticated node, which verifies the token and stores the user and its claims in the payload.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function Authorize(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { rules, userKey, claimsKey, client, tokenFrom, tokenKey } = inputs;
+
+  /**
+   * Parses the rule set of the Code input.
+   * @returns None
+   */
+  let ruleSet: AuthorizationRule[];
+  try {
+    ruleSet = parseAuthorizationRules(rules);
+  } catch (parseError: any) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Reads the user and the verified claims stored by the Oauth isAuthenticated node.
+   * @param {string} userKey - The payload key holding the user. Default is "msg.user".
+   * @param {string} claimsKey - The payload key holding the claims. Default is "msg.claims".
+   * @returns None
+   */
+  let user: User | undefined = _.get(payload, userKey || "msg.user");
+  let claims: Record<string, any> | null = _.get(
+    payload,
+    claimsKey || "msg.claims"
+  );
+
+  /**
+   * Reads the access token of the request for the selected configuration, if the claims or the user have to be looked up.
+   * The token is read from the session cookie in cookie session mode, otherwise from the authorization header.
+   * @param {string} tokenFrom - Where the token is read from. Default follows the session mode of the configuration.
+   * @returns None
+   */
+  const supabase =
+    client &&
+    !_.isEmpty(client) &&
+    (!_.isPlainObject(claims) || needsServerUser(ruleSet))
+      ? selectSupabaseClient(payload, client)
+      : null;
+  const token = supabase
+    ? getBearerToken(
+        ctx,
+        supabase,
+        tokenFrom || (sessionCookieOptions(supabase) ? "cookie" : "header"),
+        tokenKey
+      )
+    : undefined;
+
+  /**
+   * Verifies the access token of the request with the selected configuration if the payload holds no claims.
+   * @returns None
+   */
+  if (!_.isPlainObject(claims)) {
+    claims = null;
+
+    if (supabase && token) {
+      const { claims: verifiedClaims, error: verifyError } =
+        await verifyAccessToken(supabase, token);
+
+      if (verifyError || !verifiedClaims) {
+        ctx.status = 401;
+        payload.msg = {
+          authorized: false,
+          message: verifyError?.message || "Invalid JWT.",
+          rawError: verifyError,
+        };
+        return;
+      }
+
+      claims = verifiedClaims;
+    }
+  }
+
+  /**
+   * The claims have to belong to the user, otherwise the request is treated as unauthenticated.
+   * @returns None
+   */
+  if (!user || !claims || claims.sub !== user.id) {
+    ctx.status = 401;
+    payload.msg = {
+      authorized: false,
+      message: "Missing authenticated user or access token.",
+    };
+    return;
+  }
+
+  /**
+   * Fetches the user from the Auth server if a rule checks details the access token does not carry
+   * and the user was built from the token claims by local verification.
+   * Rejects the rule set if there is no client and access token to fetch the user with.
+   * @returns None
+   */
+  if (needsServerUser(ruleSet) && isUserFromClaims(user)) {
+    if (!supabase || !token) {
+      ctx.status = 500;
+      payload.msg = {
+        error: true,
+        message:
+          "Email and phone confirmation rules need the user of the Auth server. Select the client of the access token or use remote verification.",
+      };
+      return;
+    }
+
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || data.user.id !== user.id) {
+      ctx.status = 401;
+      payload.msg = {
+        authorized: false,
+        message:
+          error?.message || "Missing authenticated user or access token.",
+        rawError: error,
+      };
+      return;
+    }
+
+    user = data.user;
+  }
+
+  /**
+   * Rejects the request with 403 and the name of the first rule which failed.
+   * @returns None
+   */
+  const failedRule = failedAuthorizationRule(ruleSet, user, claims);
+  if (failedRule) {
+    ctx.status = 403;
+    payload.msg = {
+      authorized: false,
+      message: `Authorization rule "${failedRule.name}" failed.`,
+      rule: failedRule.name,
+    };
+    return;
+  }
+
+  payload.msg = {
+    ...(_.isPlainObject(payload.msg) ? payload.msg : {}),
+    authorized: true,
+  };
+
+  next();
+}
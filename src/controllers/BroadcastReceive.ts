@@ -0,0 +1,77 @@
+import { EcoContext } from "@ecoflow/types";
+import {
+  realtimeTrigger,
+  realtimeTriggerKey,
+  subscribeRealtime,
+} from "../helpers/realtimeChannels";
+
+/**
+ * Subscribes to a Supabase Realtime broadcast channel and continues the flow for every received message.
+ * Deploying the flow again replaces the previous subscription of the same trigger name, or of the same channel and event.
+ * @param {EcoContext} ctx - The context object containing information about the flow.
+ * @returns None
+ */
+export default async function BroadcastReceive(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ and log properties.
+   * @returns An object containing the _ and log properties from the ecoFlow object.
+   */
+  const { _, log } = ecoFlow;
+
+  /**
+   * Destructures the context object into the inputs variable.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { inputs } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and logs an error if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    log.error("Missing inputs.");
+    return;
+  }
+
+  const { client, name, channel, event } = inputs;
+
+  /**
+   * Checks if the client or the channel is missing or empty, and logs an error if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !channel || _.isEmpty(channel)) {
+    log.error("Missing client or channel for broadcast receive.");
+    return;
+  }
+
+  const broadcastEvent: string = event && !_.isEmpty(event) ? event : "*";
+  const key = realtimeTriggerKey(
+    client,
+    name,
+    `broadcast:${client}:${channel}:${broadcastEvent}`
+  );
+
+  /**
+   * Subscribes to the channel on a connection of its own, so other nodes listening to the channel keep their subscription.
+   * Each message starts a fresh run of the flow with the message as its payload.
+   * @returns None
+   */
+  const trigger = realtimeTrigger(ctx);
+  await subscribeRealtime(
+    key,
+    client,
+    (connection) =>
+      connection
+        .channel(channel)
+        .on("broadcast", { event: broadcastEvent }, (message) =>
+          trigger({
+            channel,
+            event: message.event,
+            payload: message.payload,
+          })
+        ),
+    true
+  );
+}
@@ -0,0 +1,107 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+
+/**
+ * Publishes an event with a payload to a Supabase Realtime broadcast channel.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function BroadcastSend(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, channel, event, payloadKey } = inputs;
+
+  /**
+   * Checks if the client, the channel or the event is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (
+    !client ||
+    _.isEmpty(client) ||
+    !channel ||
+    _.isEmpty(channel) ||
+    !event ||
+    _.isEmpty(event)
+  ) {
+    payload.msg = {
+      error: true,
+      message: "Missing client, channel or event.",
+      status: {
+        client: _.isUndefined(client),
+        channel: _.isUndefined(channel),
+        event: _.isUndefined(event),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the stateless client of the selected configuration, so the message is always sent with the API key
+   * and never with the realtime token of a user signed in on the shared client.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Reuses a channel the client already holds for the topic (e.g. of another send still running).
+   * Otherwise a temporary channel is created, which sends the message over the REST API.
+   * @returns None
+   */
+  const existingChannel = supabase
+    .getChannels()
+    .find(({ topic }) => topic === `realtime:${channel}`);
+  const broadcastChannel = existingChannel || supabase.channel(channel);
+
+  const response = await broadcastChannel.send({
+    type: "broadcast",
+    event,
+    payload: _.get(payload, payloadKey || "msg"),
+  });
+
+  if (!existingChannel) await supabase.removeChannel(broadcastChannel);
+
+  if (response !== "ok") {
+    ctx.status = response === "timed out" ? 504 : 502;
+    payload.msg = {
+      error: true,
+      message: `Failed to broadcast "${event}" on channel "${channel}": ${response}`,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Message broadcast successfully.",
+    channel,
+    event,
+  };
+
+  next();
+}
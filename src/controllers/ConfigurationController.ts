@@ -1,5 +1,8 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import supabaseClient from "../helpers/supabaseClient";
+import registerCallbackRoute from "../helpers/registerCallbackRoute";
+import { loadAuthProviders } from "../helpers/authProviders";
+import { scheduleRealtimeRebind } from "../helpers/realtimeChannels";
 
 function ConfigurationController(
   inputs: any
@@ -11,7 +14,22 @@ function ConfigurationController(
     return null;
   }
 
-  const { projectURL, apiKey, apiKeyFromEnv } = inputs;
+  const {
+    projectURL,
+    apiKey,
+    apiKeyFromEnv,
+    jwtSecret,
+    jwtSecretFromEnv,
+    cookieSession,
+    cookiePrefix,
+    cookieSameSite,
+    cookieSecure,
+    cookieDomain,
+    pkceFlowParam,
+    successURL,
+    failureURL,
+    redirectAllowlist,
+  } = inputs;
 
   if (!projectURL || _.isEmpty(projectURL)) {
     log.error("Missing project URL.");
@@ -29,7 +47,53 @@ function ConfigurationController(
     return null;
   }
 
-  return supabaseClient(projectURL, supabaseApiKey);
+  registerCallbackRoute();
+
+  const supabaseJwtSecret: string | undefined = jwtSecretFromEnv
+    ? process.env[jwtSecret]
+    : jwtSecret;
+
+  const supabase = supabaseClient(projectURL, supabaseApiKey, {
+    ...(supabaseJwtSecret && !_.isEmpty(supabaseJwtSecret)
+      ? { jwtSecret: supabaseJwtSecret }
+      : {}),
+    ...(cookieSession
+      ? {
+          sessionCookies: {
+            prefix:
+              cookiePrefix && !_.isEmpty(cookiePrefix) ? cookiePrefix : "sb",
+            sameSite: ["strict", "none"].includes(cookieSameSite)
+              ? cookieSameSite
+              : "lax",
+            secure: cookieSecure !== false,
+            ...(cookieDomain && !_.isEmpty(cookieDomain)
+              ? { domain: cookieDomain }
+              : {}),
+          },
+        }
+      : {}),
+    ...(pkceFlowParam ? { pkceFlowParam: true } : {}),
+    redirects: {
+      ...(successURL && !_.isEmpty(successURL) ? { successURL } : {}),
+      ...(failureURL && !_.isEmpty(failureURL) ? { failureURL } : {}),
+      allowlist: _.compact(
+        `${redirectAllowlist || ""}`
+          .split(/[\s,]+/)
+          .map((entry: string) => entry.trim())
+      ),
+    },
+  });
+
+  loadAuthProviders(supabase).then((providers) => {
+    if (!providers)
+      log.error(
+        `Could not read the auth settings of "${projectURL}". The default OAuth provider list is used.`
+      );
+  });
+
+  scheduleRealtimeRebind();
+
+  return supabase;
 }
 
 export default ConfigurationController;
@@ -0,0 +1,237 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import postgrestErrorStatus from "../helpers/postgrestErrorStatus";
+import {
+  applyQueryFilters,
+  applyQueryModifiers,
+  parseQueryFilters,
+} from "../helpers/queryFilters";
+import { QueryFilter } from "../interface/QueryFilter";
+
+/**
+ * Runs a select, insert, update, upsert or delete query on a table of the selected client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function Database(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract the node inputs.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const {
+    client,
+    schema,
+    table,
+    operation,
+    columns,
+    values,
+    valuesFromPayload,
+    valuesPayloadKey,
+    filters,
+    onConflict,
+    ignoreDuplicates,
+    returnRows,
+    orderBy,
+    ascending,
+    limit,
+    rangeFrom,
+    rangeTo,
+    count,
+  } = inputs;
+
+  /**
+   * Checks if the client or the table is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !table || _.isEmpty(table)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or table.",
+      status: {
+        client: _.isUndefined(client),
+        table: _.isUndefined(table),
+      },
+    };
+    return;
+  }
+
+  const queryOperation: string = operation || "select";
+  if (
+    !["select", "insert", "update", "upsert", "delete"].includes(queryOperation)
+  ) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: `Invalid operation "${queryOperation}".`,
+    };
+    return;
+  }
+
+  /**
+   * Reads the row values for insert, update and upsert from the payload or the Code input.
+   * @param {boolean} valuesFromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} valuesPayloadKey - The payload key holding the values. Default is "msg".
+   * @returns None
+   */
+  let rowValues: any;
+  let queryFilters: QueryFilter[];
+  try {
+    rowValues = valuesFromPayload
+      ? _.get(payload, valuesPayloadKey || "msg")
+      : values?.validate && !_.isEmpty(values.value)
+      ? JSON.parse(values.value)
+      : undefined;
+    queryFilters = parseQueryFilters(payload, filters);
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  if (
+    ["insert", "update", "upsert"].includes(queryOperation) &&
+    (_.isNil(rowValues) || _.isEmpty(rowValues))
+  ) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: `Missing values for ${queryOperation}.`,
+    };
+    return;
+  }
+
+  /**
+   * Refuses to update or delete every row of a table by mistake.
+   * @returns None
+   */
+  if (
+    ["update", "delete"].includes(queryOperation) &&
+    queryFilters.length === 0
+  ) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: `At least one filter is required for ${queryOperation}.`,
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Builds the query for the selected operation.
+   * @returns None
+   */
+  const from = supabase.schema(schema || "public").from(table);
+  const countOption = count
+    ? { count: count as "exact" | "planned" | "estimated" }
+    : {};
+  const selectColumns = columns && !_.isEmpty(columns) ? columns : "*";
+
+  let query: any;
+  switch (queryOperation) {
+    case "insert":
+      query = from.insert(rowValues, countOption);
+      break;
+    case "update":
+      query = from.update(rowValues, countOption);
+      break;
+    case "upsert":
+      query = from.upsert(rowValues, {
+        ...countOption,
+        ...(onConflict ? { onConflict } : {}),
+        ignoreDuplicates: ignoreDuplicates ? true : false,
+      });
+      break;
+    case "delete":
+      query = from.delete(countOption);
+      break;
+    default:
+      query = from.select(selectColumns, countOption);
+  }
+
+  query = applyQueryFilters(query, queryFilters);
+
+  if (queryOperation !== "select" && returnRows)
+    query = query.select(selectColumns);
+
+  if (queryOperation === "select" || returnRows)
+    query = applyQueryModifiers(query, {
+      orderBy,
+      ascending,
+      limit,
+      rangeFrom,
+      rangeTo,
+    });
+
+  /**
+   * Runs the query.
+   * @returns An object containing the rows, the row count, the HTTP status and any potential errors.
+   */
+  const { data, count: rowCount, status, error } = await query;
+
+  /**
+   * Converts PostgREST errors into HTTP status codes and an error message object.
+   * @param {PostgrestError} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = postgrestErrorStatus(error, status);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      code: error.code,
+      details: error.details,
+      hint: error.hint,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: `${_.capitalize(queryOperation)} successful.`,
+    data,
+    count: _.isNil(rowCount) ? (_.isArray(data) ? data.length : 0) : rowCount,
+  };
+
+  next();
+}
@@ -0,0 +1,207 @@
+import { EcoContext } from "@ecoflow/types";
+import {
+  FunctionsFetchError,
+  FunctionsHttpError,
+  FunctionsRelayError,
+} from "@supabase/supabase-js";
+import selectDataClient from "../helpers/selectDataClient";
+
+/**
+ * Invokes a Supabase Edge Function on the selected client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function EdgeFunction(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, next and request variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next, request } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    functionName,
+    method,
+    headers,
+    sendBody,
+    payloadKey,
+    forwardAuthorization,
+    binaryOutput,
+  } = inputs;
+
+  /**
+   * Checks if the client or the function name is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (
+    !client ||
+    _.isEmpty(client) ||
+    !functionName ||
+    _.isEmpty(functionName)
+  ) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or function name.",
+      status: {
+        client: _.isUndefined(client),
+        functionName: _.isUndefined(functionName),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Parses the request headers from the Code input.
+   * @returns None
+   */
+  let requestHeaders: Record<string, string>;
+  try {
+    requestHeaders =
+      headers?.validate && !_.isEmpty(headers.value)
+        ? JSON.parse(headers.value)
+        : {};
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Forwards the authorization header of the caller, so the function runs as the end user.
+   * @param {boolean} forwardAuthorization - Indicates whether the header should be forwarded.
+   * @returns None
+   */
+  if (forwardAuthorization && request.headers.authorization)
+    requestHeaders.Authorization = request.headers.authorization;
+
+  /**
+   * Reads the request body from the payload. Buffers are sent as binary, strings as text and everything else as JSON.
+   * @param {string} payloadKey - The payload key holding the body. Default is "msg".
+   * @returns None
+   */
+  const functionMethod = method || "POST";
+  let body: any =
+    sendBody && functionMethod !== "GET"
+      ? _.get(payload, payloadKey || "msg")
+      : undefined;
+  if (Buffer.isBuffer(body)) body = new Blob([new Uint8Array(body)]);
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error, response } = await supabase.functions.invoke(
+    functionName,
+    {
+      method: functionMethod as "POST" | "GET" | "PUT" | "PATCH" | "DELETE",
+      headers: requestHeaders,
+      ...(_.isUndefined(body) ? {} : { body }),
+    }
+  );
+
+  /**
+   * Handles non-2xx responses of the function. The response body is kept as JSON if possible, otherwise as text.
+   * @returns None
+   */
+  if (error instanceof FunctionsHttpError) {
+    const errorResponse: Response = error.context;
+    const errorText = await errorResponse.text();
+    let errorData: any = errorText;
+    try {
+      errorData = JSON.parse(errorText);
+    } catch {}
+
+    ctx.status = errorResponse.status;
+    payload.msg = {
+      error: true,
+      type: "http",
+      message: error.message,
+      status: errorResponse.status,
+      data: errorData,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Handles errors of the relay between the client and the function.
+   * @returns None
+   */
+  if (error instanceof FunctionsRelayError) {
+    ctx.status = 502;
+    payload.msg = {
+      error: true,
+      type: "relay",
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Handles errors reaching the function.
+   * @returns None
+   */
+  if (error instanceof FunctionsFetchError || error) {
+    ctx.status = 502;
+    payload.msg = {
+      error: true,
+      type: "fetch",
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Converts binary responses into a buffer or a base64 string and reads event streams as text.
+   * JSON and text responses are kept as parsed.
+   * @returns None
+   */
+  let responseData: any = data;
+  if (data instanceof Response) responseData = await data.text();
+  if (data instanceof Blob) {
+    const buffer = Buffer.from(await data.arrayBuffer());
+    responseData =
+      binaryOutput === "base64" ? buffer.toString("base64") : buffer;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Function invoked successfully.",
+    status: response?.status,
+    contentType: response?.headers.get("Content-Type"),
+    data: responseData,
+  };
+
+  next();
+}
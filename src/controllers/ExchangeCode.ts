@@ -0,0 +1,150 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import exchangeCodeForSession from "../helpers/exchangeCodeForSession";
+import { resumePkceFlow } from "../helpers/pkceFlow";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
+
+/**
+ * Exchanges the auth code of an OAuth, magic-link or recovery login for a session,
+ * so a flow can serve its own callback endpoint instead of the built-in callback route.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function ExchangeCode(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, codeFrom, codeKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the auth code from the query string, the payload or a route parameter.
+   * @param {string} codeFrom - Where the code is read from. Default is "query".
+   * @param {string} codeKey - The query parameter, payload key or route parameter holding the code.
+   * @returns None
+   */
+  const source: string = codeFrom || "query";
+  const code =
+    source === "payload"
+      ? _.get(payload, codeKey || "msg.code")
+      : source === "param"
+      ? ctx.params?.[codeKey || "code"]
+      : ctx.query?.[codeKey || "code"];
+
+  if (!_.isString(code) || _.isEmpty(code)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing auth code.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  /**
+   * Resumes the login attempt that started the flow. Codes of unknown or expired attempts are rejected
+   * without calling Supabase, as there is no code verifier to exchange them with.
+   * @returns None
+   */
+  const pkceClient = resumePkceFlow(ctx, supabase);
+  if (!pkceClient) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      Authenticated: false,
+      message: "Unknown or expired login attempt.",
+    };
+    return;
+  }
+
+  /**
+   * Exchanges the code with the code verifier of the login attempt that started the flow.
+   * @returns An object containing data and error from the exchange.
+   */
+  const { data, error } = await exchangeCodeForSession(pkceClient, code);
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      Authenticated: false,
+      message: error.message,
+      code: error.code,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Stores the session in cookies if the cookie session mode of the configuration is enabled.
+   * @returns None
+   */
+  const csrfToken = setSessionCookies(ctx, supabase, data?.session);
+
+  ctx.status = 200;
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "Authentication successful",
+      Authenticated: data?.session ? true : false,
+      user: data?.user,
+      session: data?.session,
+      userMetadata: data?.user?.user_metadata,
+      accessToken: data?.session?.access_token,
+      refreshToken: data?.session?.refresh_token,
+      providerToken: data?.session?.provider_token,
+      providerRefreshToken: data?.session?.provider_refresh_token,
+    },
+    csrfToken
+  );
+
+  next();
+}
@@ -0,0 +1,313 @@
+import { EcoContext } from "@ecoflow/types";
+import { UserAttributes } from "@supabase/supabase-js";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+import { callbackRouteURL } from "../helpers/registerCallbackRoute";
+import { startPkceFlow } from "../helpers/pkceFlow";
+import { authProviderEnabled } from "../helpers/authProviders";
+import oauthOptions from "../helpers/oauthOptions";
+import { OauthOptions } from "../interface/OauthOptions";
+
+/**
+ * Links an email/password, phone or OAuth identity to the signed in user.
+ * Linking an identity to an anonymous user makes the account permanent without losing its data.
+ * Email and phone identities are confirmed with the link or OTP Supabase sends, OAuth identities
+ * are linked when the callback exchanges the code of the returned URL.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function LinkIdentity(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    identityType,
+    email,
+    Phone,
+    password,
+    provider,
+    callbackURL,
+    scopes,
+    queryParams,
+    skipBrowserRedirect,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the identity based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the identity.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userPhone = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.phone
+      : payload.msg.phone
+    : Phone;
+  const userPassword = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.password
+      : payload.msg.password
+    : password;
+  const userProvider = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.provider
+      : payload.msg.provider
+    : provider;
+  const linkType: string = identityType || "email";
+
+  /**
+   * Checks that the values the identity type needs are provided.
+   * @returns None
+   */
+  const missing =
+    linkType === "oauth"
+      ? !userProvider
+      : linkType === "phone"
+      ? !userPhone
+      : linkType === "email"
+      ? !userEmail
+      : true;
+  if (missing) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing or invalid identity.",
+      status: {
+        identityType: linkType,
+        email: _.isUndefined(userEmail),
+        phone: _.isUndefined(userPhone),
+        provider: _.isUndefined(userProvider),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  /**
+   * Adds the email or phone number to the user. Supabase sends a confirmation link or OTP
+   * to the new address, the password is set right away.
+   * @returns None
+   */
+  if (linkType !== "oauth") {
+    const attributes: UserAttributes =
+      linkType === "phone"
+        ? {
+            phone: userPhone,
+            ...(userPassword ? { password: userPassword } : {}),
+          }
+        : {
+            email: userEmail,
+            ...(userPassword ? { password: userPassword } : {}),
+          };
+
+    const { data, error } = await userClient.auth.updateUser(
+      attributes,
+      callbackURL ? { emailRedirectTo: callbackURL } : undefined
+    );
+
+    if (error) {
+      ctx.status = error.status || 400;
+      payload.msg = {
+        error: true,
+        message: error.message,
+        rawError: error,
+        ...refreshedSessionTokens(ctx),
+      };
+      return;
+    }
+
+    ctx.status = 200;
+    payload.msg = {
+      success: true,
+      message: `Confirmation sent to the new ${
+        linkType === "phone" ? "phone number" : "email"
+      }.`,
+      identityType: linkType,
+      user: data.user,
+      isAnonymous: data.user?.is_anonymous ? true : false,
+      ...refreshedSessionTokens(ctx),
+    };
+
+    next();
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration, which starts the OAuth flow.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  if (!(await authProviderEnabled(supabase, userProvider))) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: `Provider "${userProvider}" is not enabled for this project.`,
+      provider: userProvider,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  /**
+   * Parses the scopes and the additional query parameters of the provider authorization URL.
+   * @param {string} scopes - The scopes requested from the provider.
+   * @param {object} queryParams - The Code input holding a JSON object of query parameters.
+   * @returns None
+   */
+  let providerOptions: OauthOptions;
+  try {
+    providerOptions = oauthOptions(scopes, queryParams);
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  /**
+   * Starts a login attempt signed in with the user session, so the code verifier of the link
+   * is found by the callback like the one of a regular OAuth login.
+   * @returns None
+   */
+  const {
+    data: { session },
+  } = await userClient.auth.getSession();
+  const flow = startPkceFlow(
+    ctx,
+    supabase,
+    callbackURL ? callbackURL : callbackRouteURL(client, userProvider),
+    true
+  );
+  if (!session || !flow) {
+    ctx.status = session ? 500 : 401;
+    payload.msg = {
+      error: true,
+      message: session
+        ? "Unknown supabase client configuration."
+        : "Failed to restore the session.",
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  const { error: sessionError } = await flow.client.auth.setSession({
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+  });
+  if (sessionError) {
+    ctx.status = 401;
+    payload.msg = {
+      error: true,
+      message: sessionError.message,
+      rawError: sessionError,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  const { data, error } = await flow.client.auth.linkIdentity({
+    provider: userProvider,
+    options: {
+      redirectTo: flow.redirectTo,
+      skipBrowserRedirect: true,
+      ...providerOptions,
+    },
+  });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Link url generated successfully.",
+    identityType: linkType,
+    url: data.url,
+    provider: data.provider,
+    flowId: flow.flowId,
+    ...refreshedSessionTokens(ctx),
+  };
+
+  /**
+   * Sends the browser straight to the provider unless the node should only return the link URL.
+   * @param {boolean} skipBrowserRedirect - Indicates whether the redirect is skipped. Default is true.
+   * @returns None
+   */
+  if (skipBrowserRedirect === false) {
+    ctx.redirect(data.url);
+    return;
+  }
+
+  next();
+}
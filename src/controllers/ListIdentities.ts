@@ -0,0 +1,87 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Lists the identities linked to the signed in user.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function ListIdentities(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  const { data, error } = await userClient.auth.getUserIdentities();
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Identities listed successfully.",
+    identities: data.identities,
+    providers: _.uniq(data.identities.map(({ provider }) => provider)),
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
@@ -0,0 +1,113 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Creates a challenge for an MFA factor of the signed in user.
+ * Phone factors receive the code by SMS or WhatsApp.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function MFAChallenge(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, factorId, channel, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the factor ID based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the value should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the factor ID.
+   * @returns None
+   */
+  const id = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.factorId
+      : payload.msg.factorId
+    : factorId;
+
+  if (!id || _.isEmpty(id)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing factor ID.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  const { data, error } = await userClient.auth.mfa.challenge({
+    factorId: id,
+    ...(channel === "whatsapp" || channel === "sms" ? { channel } : {}),
+  });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Challenge created successfully.",
+    factorId: id,
+    challengeId: data.id,
+    expiresAt: data.expires_at,
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
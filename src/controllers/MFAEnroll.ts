@@ -0,0 +1,143 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Enrolls a new TOTP or phone factor for the signed in user.
+ * TOTP factors return the QR code and the secret to set up the authenticator app.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function MFAEnroll(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    factorType,
+    friendlyName,
+    issuer,
+    Phone,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the factor based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the factor data.
+   * @returns None
+   */
+  const factorName = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.friendlyName
+      : payload.msg.friendlyName
+    : friendlyName;
+  const factorPhone = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.phone
+      : payload.msg.phone
+    : Phone;
+  const type = factorType === "phone" ? "phone" : "totp";
+
+  if (type === "phone" && (!factorPhone || _.isEmpty(factorPhone))) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing phone.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  const { data, error } =
+    type === "phone"
+      ? await userClient.auth.mfa.enroll({
+          factorType: type,
+          phone: factorPhone,
+          ...(factorName ? { friendlyName: factorName } : {}),
+        })
+      : await userClient.auth.mfa.enroll({
+          factorType: type,
+          ...(factorName ? { friendlyName: factorName } : {}),
+          ...(issuer ? { issuer } : {}),
+        });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Factor enrolled successfully. Verify it to activate it.",
+    factorId: data.id,
+    type: data.type,
+    friendlyName: data.friendly_name,
+    ...("totp" in data
+      ? {
+          qrCode: data.totp.qr_code,
+          secret: data.totp.secret,
+          uri: data.totp.uri,
+        }
+      : {}),
+    ...("phone" in data ? { phone: data.phone } : {}),
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
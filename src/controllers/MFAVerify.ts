@@ -0,0 +1,148 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
+
+/**
+ * Verifies the code of an MFA challenge and upgrades the session of the signed in user to aal2.
+ * A challenge is created first if no challenge ID is provided.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function MFAVerify(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, factorId, challengeId, code, fromPayload, payloadKey } =
+    inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the verification based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the verification data.
+   * @returns None
+   */
+  const id = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.factorId
+      : payload.msg.factorId
+    : factorId;
+  const challenge = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.challengeId
+      : payload.msg.challengeId
+    : challengeId;
+  const verificationCode = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.code
+      : payload.msg.code
+    : code;
+
+  if (!id || _.isEmpty(id) || !verificationCode) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing factor ID or code.",
+      status: {
+        factorId: _.isUndefined(id),
+        code: _.isUndefined(verificationCode),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  const { data, error } =
+    challenge && !_.isEmpty(challenge)
+      ? await userClient.auth.mfa.verify({
+          factorId: id,
+          challengeId: challenge,
+          code: `${verificationCode}`,
+        })
+      : await userClient.auth.mfa.challengeAndVerify({
+          factorId: id,
+          code: `${verificationCode}`,
+        });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  /**
+   * Replaces the session cookies with the aal2 session if the cookie session mode of the configuration is enabled.
+   * @returns None
+   */
+  const csrfToken = setSessionCookies(ctx, userClient, data);
+
+  ctx.status = 200;
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "Factor verified successfully.",
+      user: data.user,
+      session: data,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+    },
+    csrfToken
+  );
+
+  next();
+}
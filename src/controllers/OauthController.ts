@@ -1,14 +1,18 @@
 import { EcoContext } from "@ecoflow/types";
-import callbackController from "./callbackController";
+import { callbackRouteURL } from "../helpers/registerCallbackRoute";
+import { startPkceFlow } from "../helpers/pkceFlow";
+import { authProviderEnabled } from "../helpers/authProviders";
+import oauthOptions from "../helpers/oauthOptions";
+import { OauthOptions } from "../interface/OauthOptions";
 import { SupabaseClient } from "@supabase/supabase-js";
 
 export default async function OauthController(ctx: EcoContext) {
   /**
-   * Destructures the ecoFlow object to extract the _, log, server, router, and moduleConfigs properties.
+   * Destructures the ecoFlow object to extract the _ and moduleConfigs properties.
    * @param {Object} ecoFlow - The ecoFlow object containing properties to destructure.
    * @returns None
    */
-  const { _, log, server, router, moduleConfigs } = ecoFlow;
+  const { _, moduleConfigs } = ecoFlow;
 
   /**
    * Destructures the ctx object into payload, inputs, and next variables.
@@ -32,11 +36,18 @@ export default async function OauthController(ctx: EcoContext) {
   }
 
   /**
-   * Destructures the inputs object to extract client, provider, and callbackURL properties.
-   * @param {object} inputs - The object containing client, provider, and callbackURL properties.
+   * Destructures the inputs object to extract client, provider, callbackURL, scopes, queryParams and skipBrowserRedirect properties.
+   * @param {object} inputs - The object containing the node inputs.
    * @returns None
    */
-  const { client, provider, callbackURL } = inputs;
+  const {
+    client,
+    provider,
+    callbackURL,
+    scopes,
+    queryParams,
+    skipBrowserRedirect,
+  } = inputs;
 
   /**
    * Checks if the client object is missing or empty, and sets an error message in the payload if so.
@@ -121,35 +132,55 @@ export default async function OauthController(ctx: EcoContext) {
   }
 
   /**
-   * Checks if the callback URL is undefined or empty and if the specified route does not already exist in the API router stack.
-   * If the conditions are met, it creates a new route in the API router for the callback URL.
-   * @param {string} callbackURL - The callback URL to check and potentially create.
-   * @param {string} provider - The provider for the callback URL.
-   * @param {Router} router - The router object containing the API routes.
-   * @param {string} client - The client configuration ID.
-   * @param {Function} callbackController - The controller function to handle the callback.
+   * Checks that the provider is still enabled in the auth settings of the project.
+   * @param {string} provider - The provider to check.
    * @returns None
    */
-  if (
-    (_.isUndefined(callbackURL) || _.isEmpty(callbackURL)) &&
-    !(
-      (router.apiRouter.stack as any[]).filter(
-        ({ path, methods }) =>
-          path === `/api/auth/supabase/callback/${provider}` &&
-          methods.includes("GET")
-      ).length > 0
-    )
-  ) {
-    log.info(`Creating callback URL: "/auth/supabase/callback/${provider}"`);
-
-    router.apiRouter.get(
-      `/auth/supabase/callback/${provider}`,
-      async (ctx, next) => {
-        ctx.query.clientConfigID = client;
-        await next();
-      },
-      callbackController
-    );
+  if (!(await authProviderEnabled(supabase, provider))) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: `Provider "${provider}" is not enabled for this project.`,
+      provider,
+    };
+    return;
+  }
+
+  /**
+   * Parses the scopes and the additional query parameters of the provider authorization URL, e.g. access_type=offline or prompt=consent.
+   * @param {string} scopes - The scopes requested from the provider.
+   * @param {object} queryParams - The Code input holding a JSON object of query parameters.
+   * @returns None
+   */
+  let providerOptions: OauthOptions;
+  try {
+    providerOptions = oauthOptions(scopes, queryParams);
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Starts a login attempt with its own code verifier, so concurrent logins of different browsers do not collide.
+   * @returns None
+   */
+  const flow = startPkceFlow(
+    ctx,
+    supabase,
+    callbackURL ? callbackURL : callbackRouteURL(client, provider)
+  );
+  if (!flow) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
   }
 
   /**
@@ -157,14 +188,16 @@ export default async function OauthController(ctx: EcoContext) {
    * @param {string} provider - The OAuth provider to sign in with.
    * @param {object} options - Additional options for the sign-in process.
    * @param {string} options.redirectTo - The URL to redirect to after sign-in.
+   * @param {string} options.scopes - Space separated scopes requested from the provider.
+   * @param {object} options.queryParams - Additional query parameters of the provider authorization URL.
    * @returns An object containing the data and any potential errors from the sign-in process.
    */
-  const { data, error } = await supabase.auth.signInWithOAuth({
+  const { data, error } = await flow.client.auth.signInWithOAuth({
     provider,
     options: {
-      redirectTo: callbackURL
-        ? callbackURL
-        : `${server.baseUrl}/api/auth/supabase/callback/${provider}`,
+      redirectTo: flow.redirectTo,
+      skipBrowserRedirect: true,
+      ...providerOptions,
     },
   });
 
@@ -194,7 +227,18 @@ export default async function OauthController(ctx: EcoContext) {
     message: "Auth url generated successfully.",
     url: data.url,
     provider: data.provider,
+    flowId: flow.flowId,
   };
 
+  /**
+   * Sends the browser straight to the provider unless the node should only return the authentication URL.
+   * @param {boolean} skipBrowserRedirect - Indicates whether the redirect is skipped. Default is true.
+   * @returns None
+   */
+  if (skipBrowserRedirect === false) {
+    ctx.redirect(data.url);
+    return;
+  }
+
   next();
 }
@@ -1,5 +1,16 @@
 import { EcoContext } from "@ecoflow/types";
-import { SupabaseClient } from "@supabase/supabase-js";
+import { SupabaseClient, User } from "@supabase/supabase-js";
+import decodeJwtClaims from "../helpers/decodeJwtClaims";
+import verifyAccessToken, {
+  isUserFromClaims,
+  userFromClaims,
+} from "../helpers/verifyAccessToken";
+import { markRemoteChecked, remoteRecheckDue } from "../helpers/remoteRecheck";
+import {
+  csrfRejected,
+  readChunkedCookie,
+  sessionCookieOptions,
+} from "../helpers/sessionCookies";
 
 /**
  * Checks if the user is authenticated using OAuth.
@@ -39,7 +50,7 @@ export default async function OauthIsAuthenticated(ctx: EcoContext) {
    * @param {object} inputs - An object containing client information.
    * @returns None
    */
-  const { client } = inputs;
+  const { client, requiredAAL, verification, recheckInterval } = inputs;
   if (!client || _.isEmpty(client)) {
     payload.msg = {
       error: true,
@@ -96,12 +107,19 @@ export default async function OauthIsAuthenticated(ctx: EcoContext) {
 
   /**
    * Extracts the token from the authorization header in the request and checks if it is valid.
+   * In cookie session mode the access token cookie is used if the header is missing.
    * If the token is missing or empty, it sets the response status to 401 and returns an error message.
    * @param {Request} request - The request object containing the headers.
    * @param {Context} ctx - The context object to set the response status and payload.
    * @returns None
    */
-  const token = request.headers.authorization?.split(" ")[1];
+  const cookieOptions = sessionCookieOptions(supabase);
+  const headerToken = request.headers.authorization?.split(" ")[1];
+  const token =
+    headerToken ||
+    (cookieOptions
+      ? readChunkedCookie(ctx, `${cookieOptions.prefix}-access-token`)
+      : undefined);
   if (_.isUndefined(token) || _.isEmpty(token)) {
     ctx.status = 401;
     payload.msg = {
@@ -112,39 +130,124 @@ export default async function OauthIsAuthenticated(ctx: EcoContext) {
   }
 
   /**
-   * Retrieves user data and error information from Supabase authentication using the provided token.
-   * @param {string} token - The authentication token used to retrieve user data.
-   * @returns An object containing the user data and any potential errors.
+   * Requests authenticated by the session cookie have to carry the CSRF token.
+   * @returns None
    */
-  const { data, error } = await supabase.auth.getUser(token);
+  if (!headerToken && csrfRejected(ctx, supabase)) return;
 
   /**
-   * If an error is present, set the status to 401, construct an error message object,
-   * and return without further execution.
-   * @param {Error} error - The error object to handle
+   * Verifies the token locally for the "local" and "hybrid" verification modes.
+   * The user is built from the claims of the token.
+   * @param {string} verification - The verification mode. Default is "remote".
    * @returns None
    */
-  if (error) {
-    ctx.status = 401;
-    payload.msg = {
-      authenticated: false,
-      message: error.message,
-      rawError: error,
-    };
-    return;
+  let user: User | null = null;
+  let claims = decodeJwtClaims(token);
+  const verificationMode: string = verification || "remote";
+
+  if (verificationMode !== "remote") {
+    const { claims: verifiedClaims, error: verifyError } =
+      await verifyAccessToken(supabase, token);
+
+    if (verifyError || !verifiedClaims) {
+      ctx.status = 401;
+      payload.msg = {
+        authenticated: false,
+        message: verifyError?.message || "Invalid JWT.",
+        rawError: verifyError,
+      };
+      return;
+    }
+
+    claims = verifiedClaims;
+    user = userFromClaims(verifiedClaims);
   }
 
   /**
-   * Checks if the data object is not null and contains a user property. If so, sets the payload message
+   * Retrieves user data and error information from Supabase authentication using the provided token.
+   * In "hybrid" mode this only happens once per re-check interval and session, so revoked sessions are still noticed.
+   * @param {string} token - The authentication token used to retrieve user data.
+   * @returns None
+   */
+  const interval = (Number(recheckInterval) || 300) * 1000;
+  const sessionKey = claims?.session_id || token;
+
+  if (
+    verificationMode === "remote" ||
+    (verificationMode === "hybrid" && remoteRecheckDue(sessionKey, interval))
+  ) {
+    const { data, error } = await supabase.auth.getUser(token);
+
+    /**
+     * If an error is present, set the status to 401, construct an error message object,
+     * and return without further execution.
+     * @param {Error} error - The error object to handle
+     * @returns None
+     */
+    if (error) {
+      ctx.status = 401;
+      payload.msg = {
+        authenticated: false,
+        message: error.message,
+        rawError: error,
+      };
+      return;
+    }
+
+    user = data.user;
+    if (verificationMode === "hybrid") markRemoteChecked(sessionKey, interval);
+  }
+
+  /**
+   * Checks if a user was found. If so, sets the payload message
    * to indicate authentication and includes the user data. Calls the next middleware function.
-   * @param {object} data - The data object to check for user authentication.
+   * @param {User} user - The authenticated user.
    * @param {function} next - The next middleware function to call.
    * @returns None
    */
-  if (data && data.user !== null) {
+  if (user) {
+    /**
+     * Rejects sessions below the required assurance level with 403, so the caller can ask for an MFA challenge.
+     * The factors of users built from the token claims are fetched from the Auth server to tell the next level.
+     * @param {string} requiredAAL - The required authenticator assurance level.
+     * @returns None
+     */
+    const currentLevel = claims?.aal || "aal1";
+    if (requiredAAL === "aal2" && currentLevel !== "aal2") {
+      if (isUserFromClaims(user)) {
+        const { data, error } = await supabase.auth.getUser(token);
+
+        if (error) {
+          ctx.status = 401;
+          payload.msg = {
+            authenticated: false,
+            message: error.message,
+            rawError: error,
+          };
+          return;
+        }
+
+        user = data.user;
+      }
+
+      ctx.status = 403;
+      payload.msg = {
+        authenticated: true,
+        insufficientAAL: true,
+        message: "Multi-factor authentication is required.",
+        currentLevel,
+        requiredLevel: requiredAAL,
+        nextLevel: user.factors?.some(({ status }) => status === "verified")
+          ? "aal2"
+          : currentLevel,
+      };
+      return;
+    }
+
     payload.msg = {
       authenticated: true,
-      user: data.user,
+      user,
+      claims,
     };
     next();
     return;
@@ -0,0 +1,176 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import postgrestErrorStatus from "../helpers/postgrestErrorStatus";
+import {
+  applyQueryFilters,
+  applyQueryModifiers,
+  parseQueryFilters,
+} from "../helpers/queryFilters";
+import { QueryFilter } from "../interface/QueryFilter";
+
+/**
+ * Calls a Postgres function on the selected client.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function RPC(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract the node inputs.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const {
+    client,
+    schema,
+    functionName,
+    args,
+    fromPayload,
+    payloadKey,
+    head,
+    get,
+    count,
+    columns,
+    filters,
+    orderBy,
+    ascending,
+    limit,
+    rangeFrom,
+    rangeTo,
+  } = inputs;
+
+  /**
+   * Checks if the client or the function name is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (
+    !client ||
+    _.isEmpty(client) ||
+    !functionName ||
+    _.isEmpty(functionName)
+  ) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or function name.",
+      status: {
+        client: _.isUndefined(client),
+        functionName: _.isUndefined(functionName),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the function arguments from the payload or the Code input and parses the filters.
+   * @param {boolean} fromPayload - Indicates whether the arguments should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object holding the arguments.
+   * @returns None
+   */
+  let functionArgs: any;
+  let queryFilters: QueryFilter[];
+  try {
+    functionArgs = fromPayload
+      ? payloadKey
+        ? payload[payloadKey]
+        : payload.msg
+      : args?.validate && !_.isEmpty(args.value)
+      ? JSON.parse(args.value)
+      : {};
+    queryFilters = parseQueryFilters(payload, filters);
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  /**
+   * Calls the function. Set-returning functions can be filtered, ordered and paginated like tables.
+   * @param {string} functionName - The name of the Postgres function.
+   * @param {object} functionArgs - The named arguments of the function.
+   * @returns None
+   */
+  let query: any = supabase
+    .schema(schema || "public")
+    .rpc(functionName, functionArgs || {}, {
+      head: head ? true : false,
+      get: get ? true : false,
+      ...(count ? { count: count as "exact" | "planned" | "estimated" } : {}),
+    });
+
+  if (columns && !_.isEmpty(columns)) query = query.select(columns);
+  query = applyQueryFilters(query, queryFilters);
+  query = applyQueryModifiers(query, {
+    orderBy,
+    ascending,
+    limit,
+    rangeFrom,
+    rangeTo,
+  });
+
+  const { data, count: rowCount, status, error } = await query;
+
+  /**
+   * Converts PostgREST errors into HTTP status codes and an error message object.
+   * @param {PostgrestError} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = postgrestErrorStatus(error, status);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      code: error.code,
+      details: error.details,
+      hint: error.hint,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Function called successfully.",
+    data,
+    ...(_.isNil(rowCount) ? {} : { count: rowCount }),
+  };
+
+  next();
+}
@@ -0,0 +1,101 @@
+import { EcoContext } from "@ecoflow/types";
+import {
+  REALTIME_POSTGRES_CHANGES_LISTEN_EVENT,
+  RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+import {
+  realtimeTrigger,
+  realtimeTriggerKey,
+  subscribeRealtime,
+} from "../helpers/realtimeChannels";
+
+/**
+ * Subscribes to Postgres changes of a table and continues the flow for every change.
+ * Deploying the flow again replaces the previous subscription of the same trigger name, or of the same table, event and filter.
+ * @param {EcoContext} ctx - The context object containing information about the flow.
+ * @returns None
+ */
+export default async function RealtimeChanges(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ and log properties.
+   * @returns An object containing the _ and log properties from the ecoFlow object.
+   */
+  const { _, log } = ecoFlow;
+
+  /**
+   * Destructures the context object into the inputs variable.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { inputs } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and logs an error if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    log.error("Missing inputs.");
+    return;
+  }
+
+  const { client, name, schema, table, event, filter } = inputs;
+
+  /**
+   * Checks if the client or the table is missing or empty, and logs an error if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !table || _.isEmpty(table)) {
+    log.error("Missing client or table for realtime changes.");
+    return;
+  }
+
+  const changeSchema: string = schema || "public";
+  const changeEvent: `${REALTIME_POSTGRES_CHANGES_LISTEN_EVENT}` = [
+    "INSERT",
+    "UPDATE",
+    "DELETE",
+  ].includes(event)
+    ? event
+    : "*";
+  const key = realtimeTriggerKey(
+    client,
+    name,
+    `postgres_changes:${client}:${changeSchema}:${table}:${changeEvent}:${
+      filter || ""
+    }`
+  );
+
+  /**
+   * Subscribes to the changes on a connection of its own, which never carries the session of a user signed in
+   * on the client of the configuration, so Row Level Security always applies to the API key.
+   * Each change starts a fresh run of the flow with the change as its message.
+   * @returns None
+   */
+  const trigger = realtimeTrigger(ctx);
+  await subscribeRealtime(
+    key,
+    client,
+    (connection) =>
+      connection.channel(key).on(
+        "postgres_changes",
+        {
+          event: changeEvent,
+          schema: changeSchema,
+          table,
+          ...(filter && !_.isEmpty(filter) ? { filter } : {}),
+        },
+        (change: RealtimePostgresChangesPayload<Record<string, any>>) =>
+          trigger({
+            event: change.eventType,
+            schema: change.schema,
+            table: change.table,
+            commitTimestamp: change.commit_timestamp,
+            new: change.new,
+            old: change.old,
+            errors: change.errors,
+          })
+      ),
+    true
+  );
+}
@@ -0,0 +1,288 @@
+import { EcoContext } from "@ecoflow/types";
+import { RealtimePresenceState } from "@supabase/supabase-js";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import {
+  getRealtimeChannel,
+  joinedRealtime,
+  subscribeRealtime,
+  unsubscribeRealtime,
+} from "../helpers/realtimeChannels";
+
+/**
+ * States of the presence keys tracked on each channel, keyed by the subscription of the channel.
+ */
+const trackedPresences = new Map<string, Record<string, any>>();
+
+/**
+ * Resolves with true once the channel received its first presence state, keyed by the subscription of the channel.
+ */
+const presenceSynced = new Map<string, Promise<boolean>>();
+
+/**
+ * Waits until the channel of a subscription received its first presence state.
+ * @param {string} subscriptionKey - The subscription key of the channel.
+ * @param {number} timeout - Maximum time to wait in milliseconds. Default is 10000.
+ * @returns {Promise<boolean>} True if the presence state arrived in time.
+ */
+const syncedPresence = async (
+  subscriptionKey: string,
+  timeout: number = 10000
+): Promise<boolean> => {
+  const synced = presenceSynced.get(subscriptionKey);
+  if (!synced) return false;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+  });
+
+  const result = await Promise.race([synced, timedOut]);
+  clearTimeout(timer);
+
+  return result;
+};
+
+/**
+ * Lists the presence state by presence key. The keys tracked by a flow are listed with their own state
+ * instead of the single presence of the connection they share.
+ * @param {RealtimePresenceState} state - The presence state of the channel.
+ * @returns {Record<string, any[]>} The states of every presence key.
+ */
+const presenceByKey = (state: RealtimePresenceState): Record<string, any[]> => {
+  const { _ } = ecoFlow;
+
+  return _.transform(
+    state,
+    (result: Record<string, any[]>, metas: any[], presenceRef: string) =>
+      metas.forEach((meta) =>
+        _.isPlainObject(meta.presences)
+          ? _.forEach(meta.presences, (keyState: any, key: string) => {
+              result[key] = [...(result[key] || []), keyState];
+            })
+          : (result[presenceRef] = [...(result[presenceRef] || []), meta])
+      ),
+    {}
+  );
+};
+
+/**
+ * Tracks, untracks or reads the presence of a Supabase Realtime channel.
+ * All presence keys of a channel share one realtime connection. A connection holds one presence per channel,
+ * so the tracked keys are sent together as the "presences" of that presence and listed by key when reading the state.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function RealtimePresence(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    channel,
+    operation,
+    presenceKey,
+    presenceState,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client or the channel is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !channel || _.isEmpty(channel)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or channel.",
+      status: {
+        client: _.isUndefined(client),
+        channel: _.isUndefined(channel),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the presence key and state based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the values.
+   * @returns None
+   */
+  const key = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.key
+      : payload.msg.key
+    : presenceKey;
+  let state: any;
+  try {
+    state = fromPayload
+      ? payloadKey
+        ? payload[payloadKey]?.state
+        : payload.msg.state
+      : presenceState?.validate && !_.isEmpty(presenceState.value)
+      ? JSON.parse(presenceState.value)
+      : {};
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  const presenceOperation: string = operation || "state";
+  if (presenceOperation !== "state" && (!key || _.isEmpty(`${key}`))) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing presence key.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  const subscriptionKey = `presence:${client}:${channel}`;
+
+  /**
+   * Stops tracking the presence key. The connection of the channel is closed once no key is tracked anymore.
+   * @returns None
+   */
+  if (presenceOperation === "untrack") {
+    const presences = _.omit(
+      trackedPresences.get(subscriptionKey) || {},
+      `${key}`
+    );
+    const presenceChannel = getRealtimeChannel(subscriptionKey);
+
+    if (_.isEmpty(presences)) {
+      trackedPresences.delete(subscriptionKey);
+      presenceSynced.delete(subscriptionKey);
+      if (presenceChannel) await presenceChannel.untrack();
+      await unsubscribeRealtime(subscriptionKey);
+    } else {
+      trackedPresences.set(subscriptionKey, presences);
+      if (presenceChannel) await presenceChannel.track({ presences });
+    }
+
+    ctx.status = 200;
+    payload.msg = {
+      success: true,
+      message: "Presence untracked successfully.",
+      channel,
+      key,
+    };
+
+    next();
+    return;
+  }
+
+  /**
+   * Subscribes the presence channel on a connection of its own, unless another key of the channel already did.
+   * @returns None
+   */
+  let presenceChannel = getRealtimeChannel(subscriptionKey);
+  if (!presenceChannel)
+    presenceChannel = await subscribeRealtime(
+      subscriptionKey,
+      client,
+      (connection) => {
+        let settleSynced: (synced: boolean) => void = () => {};
+        presenceSynced.set(
+          subscriptionKey,
+          new Promise((resolve) => (settleSynced = resolve))
+        );
+
+        return connection
+          .channel(channel)
+          .on("presence", { event: "sync" }, () => settleSynced(true));
+      },
+      true
+    );
+
+  if (!presenceChannel || !(await joinedRealtime(subscriptionKey))) {
+    ctx.status = 504;
+    payload.msg = {
+      error: true,
+      message: `Failed to join realtime channel "${channel}".`,
+    };
+    return;
+  }
+
+  if (presenceOperation === "track") {
+    const presences = {
+      ...(trackedPresences.get(subscriptionKey) || {}),
+      [`${key}`]: state || {},
+    };
+    trackedPresences.set(subscriptionKey, presences);
+
+    const response = await presenceChannel.track({ presences });
+
+    if (response !== "ok") {
+      ctx.status = response === "timed out" ? 504 : 502;
+      payload.msg = {
+        error: true,
+        message: `Failed to track presence on channel "${channel}": ${response}`,
+      };
+      return;
+    }
+  }
+
+  /**
+   * Waits for the first presence state of the channel, which arrives after joining.
+   * @returns None
+   */
+  if (!(await syncedPresence(subscriptionKey))) {
+    ctx.status = 504;
+    payload.msg = {
+      error: true,
+      message: `Failed to receive the presence state of channel "${channel}".`,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message:
+      presenceOperation === "track"
+        ? "Presence tracked successfully."
+        : "Presence state retrieved successfully.",
+    channel,
+    ...(presenceOperation === "track" ? { key } : {}),
+    presence: presenceByKey(presenceChannel.presenceState()),
+  };
+
+  next();
+}
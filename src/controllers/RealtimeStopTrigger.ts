@@ -0,0 +1,68 @@
+import { EcoContext } from "@ecoflow/types";
+import {
+  realtimeTriggerKey,
+  unsubscribeRealtime,
+} from "../helpers/realtimeChannels";
+
+/**
+ * Closes the subscription of a named Realtime Changes or Broadcast Receive trigger.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function RealtimeStopTrigger(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, name } = inputs;
+
+  /**
+   * Checks if the client or the trigger name is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !name || _.isEmpty(name)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing client or trigger name.",
+      status: {
+        client: _.isUndefined(client),
+        name: _.isUndefined(name),
+      },
+    };
+    return;
+  }
+
+  await unsubscribeRealtime(realtimeTriggerKey(client, name, ""));
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: `Realtime trigger "${name}" stopped.`,
+    name,
+  };
+
+  next();
+}
@@ -0,0 +1,149 @@
+import { EcoContext } from "@ecoflow/types";
+import { callbackRouteURL } from "../helpers/registerCallbackRoute";
+import { startPkceFlow } from "../helpers/pkceFlow";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+
+/**
+ * Sends a password recovery email to the user.
+ * The recovery link leads to the recovery callback which turns it into a recovery session.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function ResetPassword(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the ctx object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract client, email, fromPayload, payloadKey and callbackURL properties.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const { client, email, fromPayload, payloadKey, callbackURL } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to user email and captcha token based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the email should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const captchaToken = payloadKey
+    ? payload[payloadKey]?.captchaToken
+    : payload.msg.captchaToken;
+
+  if (!userEmail || _.isEmpty(userEmail)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing email.",
+      status: {
+        email: _.isUndefined(userEmail),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  /**
+   * Starts a recovery attempt with its own code verifier, so concurrent recoveries do not collide.
+   * @returns None
+   */
+  const flow = startPkceFlow(
+    ctx,
+    supabase,
+    callbackURL ? callbackURL : callbackRouteURL(client, "recovery")
+  );
+  if (!flow) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
+  }
+
+  /**
+   * Sends the password recovery email.
+   * @param {string} userEmail - The email address of the user.
+   * @param {object} options - The redirect URL and the optional captcha token.
+   * @returns An object containing any potential errors.
+   */
+  const { error } = await flow.client.auth.resetPasswordForEmail(userEmail, {
+    redirectTo: flow.redirectTo,
+    ...(captchaToken ? { captchaToken } : {}),
+  });
+
+  /**
+   * Handles an error by setting the status to 400, constructing an error message object,
+   * and returning early from the function.
+   * @param {Error} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  payload.msg = {
+    success: true,
+    message: "Password recovery email sent successfully.",
+    flowId: flow.flowId,
+  };
+
+  next();
+}
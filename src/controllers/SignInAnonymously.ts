@@ -0,0 +1,152 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import isolatedClient from "../helpers/isolatedClient";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
+
+/**
+ * Creates an anonymous user and signs it in, so visitors can use the app before registering.
+ * The account can be made permanent later by linking an identity to it.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function SignInAnonymously(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, uData, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the user metadata and the captcha token based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the metadata should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+  const captchaToken = payloadKey
+    ? payload[payloadKey]?.captchaToken
+    : payload.msg?.captchaToken;
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  /**
+   * Signs in with an isolated client, so the session of the anonymous user never ends up in the shared client.
+   * @returns None
+   */
+  const anonymousClient = isolatedClient(supabase);
+  if (!anonymousClient) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
+  }
+
+  let data: any;
+  try {
+    data = userData?.validate ? JSON.parse(userData.value) : undefined;
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  const { data: sessionData, error } =
+    await anonymousClient.auth.signInAnonymously({
+      options: {
+        ...(data ? { data } : {}),
+        ...(captchaToken ? { captchaToken } : {}),
+      },
+    });
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      Authenticated: false,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Stores the session in cookies if the cookie session mode of the configuration is enabled.
+   * @returns None
+   */
+  const csrfToken = setSessionCookies(ctx, supabase, sessionData?.session);
+
+  ctx.status = 200;
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "Authentication successful",
+      Authenticated: sessionData?.session ? true : false,
+      isAnonymous: sessionData?.user?.is_anonymous ? true : false,
+      user: sessionData?.user,
+      session: sessionData?.session,
+      userMetadata: sessionData?.user?.user_metadata,
+      accessToken: sessionData?.session?.access_token,
+      refreshToken: sessionData?.session?.refresh_token,
+    },
+    csrfToken
+  );
+
+  next();
+}
@@ -1,9 +1,10 @@
 import { EcoContext } from "@ecoflow/types";
 import { SupabaseClient } from "@supabase/supabase-js";
-import callbackController from "./callbackController";
+import { callbackRouteURL } from "../helpers/registerCallbackRoute";
+import { startPkceFlow } from "../helpers/pkceFlow";
 
 export default async function SignInWithOTP(ctx: EcoContext) {
-  const { _, log, router, server, moduleConfigs } = ecoFlow;
+  const { _, moduleConfigs } = ecoFlow;
 
   const { payload, inputs, next } = ctx;
 
@@ -15,7 +16,17 @@ export default async function SignInWithOTP(ctx: EcoContext) {
     return;
   }
 
-  const { client, email, Phone, fromPayload, payloadKey, callbackURL } = inputs;
+  const {
+    client,
+    email,
+    Phone,
+    channel,
+    shouldCreateUser,
+    uData,
+    fromPayload,
+    payloadKey,
+    callbackURL,
+  } = inputs;
 
   if (!client || _.isEmpty(client)) {
     payload.msg = {
@@ -36,8 +47,29 @@ export default async function SignInWithOTP(ctx: EcoContext) {
   const userPhone = fromPayload
     ? payloadKey
       ? payload[payloadKey]?.phone
-      : payload.msg.email
+      : payload.msg.phone
     : Phone;
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+  const captchaToken = payloadKey
+    ? payload[payloadKey]?.captchaToken
+    : payload.msg.captchaToken;
+
+  if (!userEmail && !userPhone) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing email or phone.",
+      status: {
+        email: _.isUndefined(userEmail),
+        phone: _.isUndefined(userPhone),
+      },
+    };
+    return;
+  }
 
   const configManager = moduleConfigs.selectPackage("ecoflow-supabase-auth");
   if (!configManager || _.isUndefined(configManager)) {
@@ -66,34 +98,56 @@ export default async function SignInWithOTP(ctx: EcoContext) {
     return;
   }
 
-  if (
-    (_.isUndefined(callbackURL) || _.isEmpty(callbackURL)) &&
-    !(
-      (router.apiRouter.stack as any[]).filter(
-        ({ path, methods }) =>
-          path === `/api/auth/supabase/callback/OTP` && methods.includes("GET")
-      ).length > 0
-    )
-  ) {
-    log.info(`Creating callback URL: "/auth/supabase/callback/OTP"`);
-
-    router.apiRouter.get(
-      `/auth/supabase/callback/OTP`,
-      async (ctx, next) => {
-        ctx.query.clientConfigID = client;
-        await next();
-      },
-      callbackController
-    );
+  let data: any;
+  try {
+    data = userData?.validate ? JSON.parse(userData.value) : undefined;
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  const options = {
+    shouldCreateUser: _.isUndefined(shouldCreateUser) ? true : shouldCreateUser,
+    ...(data ? { data } : {}),
+    ...(captchaToken ? { captchaToken } : {}),
+  };
+
+  const flow = startPkceFlow(
+    ctx,
+    supabase,
+    callbackURL ? callbackURL : callbackRouteURL(client, "OTP")
+  );
+  if (!flow) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
   }
 
-  const { error } = await supabase.auth.signInWithOtp({
-    email: userEmail,
-    phone: userPhone,
-    options: {
-      emailRedirectTo: `${server.baseUrl}/api/auth/supabase/callback/OTP`,
-    },
-  });
+  const { error } = await flow.client.auth.signInWithOtp(
+    userEmail
+      ? {
+          email: userEmail,
+          options: {
+            ...options,
+            emailRedirectTo: flow.redirectTo,
+          },
+        }
+      : {
+          phone: userPhone,
+          options: {
+            ...options,
+            channel: channel === "whatsapp" ? "whatsapp" : "sms",
+          },
+        }
+  );
 
   if (error) {
     ctx.status = 400;
@@ -108,6 +162,7 @@ export default async function SignInWithOTP(ctx: EcoContext) {
   payload.msg = {
     success: true,
     message: "OTP sent successfully.",
+    flowId: flow.flowId,
   };
 
   next();
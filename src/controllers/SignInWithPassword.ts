@@ -1,5 +1,9 @@
 import { EcoContext } from "@ecoflow/types";
 import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
 
 export default async function SignInWithPassword(ctx: EcoContext) {
   /**
@@ -158,6 +162,12 @@ export default async function SignInWithPassword(ctx: EcoContext) {
     return;
   }
 
+  /**
+   * Stores the session in cookies if the cookie session mode of the configuration is enabled.
+   * @returns None
+   */
+  const csrfToken = setSessionCookies(ctx, supabase, data?.session);
+
   /**
    * Sets the status to 200 and constructs a payload object with authentication information.
    * @param {Object} ctx - The context object to set the status on.
@@ -165,17 +175,20 @@ export default async function SignInWithPassword(ctx: EcoContext) {
    * @returns None
    */
   ctx.status = 200;
-  payload.msg = {
-    success: true,
-    message: "Authentication successful",
-    Authenticated: data?.session ? true : false,
-    user: data?.user,
-    session: data?.session,
-    userMetadata: data?.user?.user_metadata,
-    weakPassword: data?.weakPassword,
-    accessToken: data?.session.access_token,
-    refreshToken: data?.session.refresh_token,
-  };
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "Authentication successful",
+      Authenticated: data?.session ? true : false,
+      user: data?.user,
+      session: data?.session,
+      userMetadata: data?.user?.user_metadata,
+      weakPassword: data?.weakPassword,
+      accessToken: data?.session.access_token,
+      refreshToken: data?.session.refresh_token,
+    },
+    csrfToken
+  );
 
   next();
 }
@@ -0,0 +1,137 @@
+import { EcoContext } from "@ecoflow/types";
+import { SignOut as SignOutOptions } from "@supabase/supabase-js";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import getBearerToken from "../helpers/getBearerToken";
+import { clearSessionCookies, csrfRejected } from "../helpers/sessionCookies";
+
+/**
+ * Signs out the user owning the given access token and revokes the refresh tokens of the chosen scope.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function SignOut(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract client, scope, tokenFrom and tokenKey properties.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const { client, scope, tokenFrom, tokenKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  /**
+   * Reads the access token of the user to sign out and responds with 401 if it is missing.
+   * @param {string} tokenFrom - Where the token is read from (header, payload or cookie).
+   * @param {string} tokenKey - The payload key or cookie name holding the token.
+   * @returns None
+   */
+  const token = getBearerToken(ctx, supabase, tokenFrom, tokenKey);
+  if (!token) {
+    ctx.status = 401;
+    payload.msg = {
+      error: true,
+      message: "Missing or invalid authorization token",
+      status: {
+        tokenFrom: tokenFrom || "header",
+        tokenKey: _.isUndefined(tokenKey),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Requests authenticated by the session cookie have to carry the CSRF token.
+   * @returns None
+   */
+  if (tokenFrom === "cookie" && csrfRejected(ctx, supabase)) return;
+
+  /**
+   * Revokes the session of the token owner. "global" signs out all sessions of the user,
+   * "local" only the current one and "others" every session except the current one.
+   * @param {string} token - The access token of the user.
+   * @param {string} scope - The sign out scope. Default is "global".
+   * @returns An object containing any potential errors.
+   */
+  const signOutScope: SignOutOptions["scope"] =
+    scope && ["global", "local", "others"].includes(scope) ? scope : "global";
+  const { error } = await supabase.auth.admin.signOut(token, signOutScope);
+
+  /**
+   * Handles an error by setting the status to 400, constructing an error message object,
+   * and returning early from the function.
+   * @param {Error} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Removes the session cookies unless only the other sessions were signed out.
+   * @returns None
+   */
+  if (signOutScope !== "others") clearSessionCookies(ctx, supabase);
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Signed out successfully.",
+    scope: signOutScope,
+  };
+
+  next();
+}
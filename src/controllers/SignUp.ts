@@ -1,5 +1,9 @@
 import { EcoContext } from "@ecoflow/types";
 import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
 
 export default async function Signup(ctx: EcoContext) {
   const { _, moduleConfigs } = ecoFlow;
@@ -100,17 +104,22 @@ export default async function Signup(ctx: EcoContext) {
     return;
   }
 
+  const csrfToken = setSessionCookies(ctx, supabase, data?.session);
+
   ctx.status = 200;
-  payload.msg = {
-    success: true,
-    message: "SignUp successful",
-    Authenticated: data?.session ? true : false,
-    user: data?.user,
-    session: data?.session,
-    userMetadata: data?.user?.user_metadata,
-    accessToken: data?.session?.access_token,
-    refreshToken: data?.session?.refresh_token,
-  };
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "SignUp successful",
+      Authenticated: data?.session ? true : false,
+      user: data?.user,
+      session: data?.session,
+      userMetadata: data?.user?.user_metadata,
+      accessToken: data?.session?.access_token,
+      refreshToken: data?.session?.refresh_token,
+    },
+    csrfToken
+  );
 
   next();
 }
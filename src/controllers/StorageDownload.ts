@@ -0,0 +1,127 @@
+import { EcoContext } from "@ecoflow/types";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+
+/**
+ * Downloads a file from a Supabase Storage bucket.
+ * The file is either streamed into the response or stored in the payload as a buffer or base64 string.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageDownload(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, bucket, path, output, attachment, fromPayload, payloadKey } =
+    inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  const filePath = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.path
+      : payload.msg.path
+    : path;
+
+  if (!filePath || _.isEmpty(filePath)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing path.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .download(filePath);
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Streams the file into the response. The flow ends here as the response body is set.
+   * @returns None
+   */
+  if (output === "response") {
+    ctx.status = 200;
+    ctx.type = data.type || "application/octet-stream";
+    ctx.length = data.size;
+    if (attachment)
+      ctx.attachment((filePath as string).split("/").pop() as string);
+    ctx.body = Readable.fromWeb(data.stream() as ReadableStream);
+    return;
+  }
+
+  /**
+   * Stores the file in the payload as a buffer or a base64 string.
+   * @returns None
+   */
+  const buffer = Buffer.from(await data.arrayBuffer());
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "File downloaded successfully.",
+    path: filePath,
+    contentType: data.type,
+    size: data.size,
+    data: output === "base64" ? buffer.toString("base64") : buffer,
+  };
+
+  next();
+}
@@ -0,0 +1,119 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+
+/**
+ * Lists the files of a folder in a Supabase Storage bucket.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageList(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    bucket,
+    prefix,
+    search,
+    limit,
+    offset,
+    sortBy,
+    sortOrder,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the list options based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the values.
+   * @returns None
+   */
+  const source = fromPayload
+    ? (payloadKey ? payload[payloadKey] : payload.msg) || {}
+    : { prefix, search, limit, offset };
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .list(source.prefix || undefined, {
+      ...(source.search ? { search: source.search } : {}),
+      ...(source.limit ? { limit: Number(source.limit) } : {}),
+      ...(source.offset ? { offset: Number(source.offset) } : {}),
+      ...(sortBy
+        ? {
+            sortBy: {
+              column: sortBy,
+              order: sortOrder === "desc" ? "desc" : "asc",
+            },
+          }
+        : {}),
+    });
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Files listed successfully.",
+    files: data,
+    count: data.length,
+  };
+
+  next();
+}
@@ -0,0 +1,132 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+
+/**
+ * Moves or copies a file within a Supabase Storage bucket or to another bucket.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageMove(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    bucket,
+    operation,
+    fromPath,
+    toPath,
+    destinationBucket,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the source and destination paths based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the paths should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the paths.
+   * @returns None
+   */
+  const sourcePath = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.fromPath
+      : payload.msg.fromPath
+    : fromPath;
+  const destinationPath = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.toPath
+      : payload.msg.toPath
+    : toPath;
+
+  if (!sourcePath || !destinationPath) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing source or destination path.",
+      status: {
+        fromPath: _.isUndefined(sourcePath),
+        toPath: _.isUndefined(destinationPath),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const fileApi = supabase.storage.from(bucket);
+  const options = destinationBucket ? { destinationBucket } : undefined;
+  const { data, error } =
+    operation === "copy"
+      ? await fileApi.copy(sourcePath, destinationPath, options)
+      : await fileApi.move(sourcePath, destinationPath, options);
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message:
+      operation === "copy"
+        ? "File copied successfully."
+        : "File moved successfully.",
+    bucket: destinationBucket || bucket,
+    path: destinationPath,
+    ...data,
+  };
+
+  next();
+}
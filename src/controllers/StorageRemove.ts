@@ -0,0 +1,112 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+
+/**
+ * Removes one or more files from a Supabase Storage bucket.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageRemove(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, bucket, paths, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the paths from the payload (string or array) or from the comma separated input.
+   * @param {boolean} fromPayload - Indicates whether the paths should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the paths.
+   * @returns None
+   */
+  const filePaths = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.paths
+      : payload.msg.paths
+    : paths;
+  const removePaths: string[] = (
+    _.isArray(filePaths) ? filePaths : `${filePaths || ""}`.split(",")
+  )
+    .map((filePath: string) => `${filePath}`.trim())
+    .filter((filePath: string) => !_.isEmpty(filePath));
+
+  if (removePaths.length === 0) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing paths.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .remove(removePaths);
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Files removed successfully.",
+    files: data,
+    count: data.length,
+  };
+
+  next();
+}
@@ -0,0 +1,163 @@
+import { EcoContext } from "@ecoflow/types";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+
+/**
+ * Creates signed download URLs or a signed upload URL for a Supabase Storage bucket.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageSignedUrl(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    bucket,
+    urlType,
+    paths,
+    expiresIn,
+    download,
+    upsert,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the paths from the payload (string or array) or from the comma separated input.
+   * @param {boolean} fromPayload - Indicates whether the paths should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the paths.
+   * @returns None
+   */
+  const filePaths = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.paths
+      : payload.msg.paths
+    : paths;
+  const urlPaths: string[] = (
+    _.isArray(filePaths) ? filePaths : `${filePaths || ""}`.split(",")
+  )
+    .map((filePath: string) => `${filePath}`.trim())
+    .filter((filePath: string) => !_.isEmpty(filePath));
+
+  if (urlPaths.length === 0) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing paths.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const fileApi = supabase.storage.from(bucket);
+
+  /**
+   * Creates a signed upload URL for the first path. Signed upload URLs are valid for two hours.
+   * @returns None
+   */
+  if (urlType === "upload") {
+    const { data, error } = await fileApi.createSignedUploadUrl(urlPaths[0], {
+      upsert: upsert ? true : false,
+    });
+
+    if (error) {
+      ctx.status = storageErrorStatus(error);
+      payload.msg = {
+        error: true,
+        message: error.message,
+        rawError: error,
+      };
+      return;
+    }
+
+    ctx.status = 200;
+    payload.msg = {
+      success: true,
+      message: "Signed upload URL created successfully.",
+      signedUrl: data.signedUrl,
+      token: data.token,
+      path: data.path,
+    };
+
+    next();
+    return;
+  }
+
+  /**
+   * Creates signed download URLs for all paths.
+   * @param {number} expiresIn - Number of seconds the URLs are valid for. Default is 60.
+   * @returns None
+   */
+  const { data, error } = await fileApi.createSignedUrls(
+    urlPaths,
+    Number(expiresIn) > 0 ? Number(expiresIn) : 60,
+    download ? { download: true } : undefined
+  );
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Signed URLs created successfully.",
+    signedUrl: data[0]?.signedUrl,
+    signedUrls: data,
+  };
+
+  next();
+}
@@ -0,0 +1,159 @@
+import { EcoContext } from "@ecoflow/types";
+import { readFile } from "fs/promises";
+import selectDataClient from "../helpers/selectDataClient";
+import storageErrorStatus from "../helpers/storageErrorStatus";
+import { MultipartFile, MultipartRequest } from "../interface/MultipartFile";
+
+/**
+ * Uploads a file to a Supabase Storage bucket.
+ * The file is read from a payload buffer/base64 string or from the incoming multipart request.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function StorageUpload(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, request, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, request, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const {
+    client,
+    bucket,
+    path,
+    source,
+    payloadKey,
+    fileField,
+    contentType,
+    cacheControl,
+    upsert,
+  } = inputs;
+
+  /**
+   * Checks if the client or the bucket is missing or empty, and sets an error message in the payload if so.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client) || !bucket || _.isEmpty(bucket)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client or bucket.",
+      status: {
+        client: _.isUndefined(client),
+        bucket: _.isUndefined(bucket),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the file body and its content type from the multipart request or the payload.
+   * A payload string is treated as base64, optionally as a data URL.
+   * @param {string} source - Where the file is read from ("payload" or "request").
+   * @returns None
+   */
+  let fileBody: Buffer | undefined;
+  let fileName: string | undefined;
+  let fileType: string | undefined = contentType || undefined;
+  if (source === "request") {
+    const files = (request as typeof request & MultipartRequest).files?.[
+      fileField || "file"
+    ];
+    const file: MultipartFile | undefined = _.isArray(files) ? files[0] : files;
+    const tempPath = file?.filepath || file?.path;
+    if (file && tempPath) {
+      try {
+        fileBody = await readFile(tempPath);
+      } catch (readError: any) {
+        ctx.status = 500;
+        payload.msg = {
+          error: true,
+          message: readError.message,
+          rawError: readError,
+        };
+        return;
+      }
+      fileName = file.originalFilename || file.name;
+      fileType = fileType || file.mimetype || file.type;
+    }
+  } else {
+    const data = _.get(payload, payloadKey || "msg");
+    if (Buffer.isBuffer(data)) fileBody = data;
+    else if (_.isString(data)) {
+      const dataURL = data.match(/^data:([^;]+);base64,(.*)$/);
+      fileBody = Buffer.from(dataURL ? dataURL[2] : data, "base64");
+      fileType = fileType || (dataURL ? dataURL[1] : undefined);
+    }
+  }
+
+  const filePath = path && !_.isEmpty(path) ? path : fileName;
+
+  if (!fileBody || !filePath) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing file or path.",
+      status: {
+        file: _.isUndefined(fileBody),
+        path: _.isUndefined(filePath),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves a stateless client of the selected configuration, so requests never run as a user signed in elsewhere.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectDataClient(ctx, client);
+  if (!supabase) return;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .upload(filePath, fileBody, {
+      upsert: upsert ? true : false,
+      ...(fileType ? { contentType: fileType } : {}),
+      ...(cacheControl ? { cacheControl: `${cacheControl}` } : {}),
+    });
+
+  if (error) {
+    ctx.status = storageErrorStatus(error);
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "File uploaded successfully.",
+    id: data.id,
+    path: data.path,
+    fullPath: data.fullPath,
+  };
+
+  next();
+}
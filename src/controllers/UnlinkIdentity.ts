@@ -0,0 +1,141 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Unlinks an identity from the signed in user.
+ * The identity is selected by its ID or, if no ID is given, by its provider.
+ * Supabase refuses to unlink the last identity of a user.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function UnlinkIdentity(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  const { client, identityId, provider, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns the identity ID and the provider based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the identity.
+   * @returns None
+   */
+  const id = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.identityId
+      : payload.msg.identityId
+    : identityId;
+  const identityProvider = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.provider
+      : payload.msg.provider
+    : provider;
+
+  if (!id && !identityProvider) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing identity ID or provider.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  const { data, error: listError } = await userClient.auth.getUserIdentities();
+
+  if (listError) {
+    ctx.status = listError.status || 400;
+    payload.msg = {
+      error: true,
+      message: listError.message,
+      rawError: listError,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  const identity = data.identities.find((candidate) =>
+    id ? candidate.identity_id === id : candidate.provider === identityProvider
+  );
+  if (!identity) {
+    ctx.status = 404;
+    payload.msg = {
+      error: true,
+      message: "Identity not found.",
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  const { error } = await userClient.auth.unlinkIdentity(identity);
+
+  if (error) {
+    ctx.status = error.status || 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Identity unlinked successfully.",
+    identityId: identity.identity_id,
+    provider: identity.provider,
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
@@ -0,0 +1,123 @@
+import { EcoContext } from "@ecoflow/types";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Sets a new password for the user of the given (recovery) session.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function UpdatePassword(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract the node inputs.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const { client, password, fromPayload, payloadKey } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Reads the new password.
+   * @param {boolean} fromPayload - Indicates whether the password should be taken from the payload object.
+   * @returns None
+   */
+  const userPassword = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.password
+      : payload.msg.password
+    : password;
+  if (!userPassword || _.isEmpty(userPassword)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Missing password.",
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  /**
+   * Updates the password of the signed in user.
+   * @param {string} userPassword - The new password.
+   * @returns An object containing data and error from the update.
+   */
+  const { data, error } = await userClient.auth.updateUser({
+    password: userPassword,
+  });
+
+  /**
+   * Handles an error by setting the status to 400, constructing an error message object,
+   * and returning early from the function.
+   * @param {Error} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "Password updated successfully.",
+    user: data.user,
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
@@ -0,0 +1,221 @@
+import { EcoContext } from "@ecoflow/types";
+import { UserAttributes } from "@supabase/supabase-js";
+import selectSessionClient, {
+  refreshedSessionTokens,
+} from "../helpers/selectSessionClient";
+
+/**
+ * Updates the email, phone, password or metadata of the signed in user.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function UpdateUser(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the context object into payload, inputs, and next variables.
+   * @param {object} ctx - The context object to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract the node inputs.
+   * @param {object} inputs - The object containing the node inputs.
+   * @returns None
+   */
+  const {
+    client,
+    email,
+    Phone,
+    password,
+    nonce,
+    uData,
+    emailRedirectTo,
+    requestNonce,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to the user attributes based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userPhone = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.phone
+      : payload.msg.phone
+    : Phone;
+  const userPassword = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.password
+      : payload.msg.password
+    : password;
+  const userNonce = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.nonce
+      : payload.msg.nonce
+    : nonce;
+  const userData = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.uData
+      : payload.msg.uData
+    : uData || { value: "", validate: false };
+
+  /**
+   * Parses the user metadata, answering malformed JSON with a 400.
+   * @returns None
+   */
+  let metadata: any;
+  try {
+    metadata = userData?.validate ? JSON.parse(userData.value) : undefined;
+  } catch (parseError: any) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: parseError.message,
+      rawError: parseError,
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client signed in with the user session.
+   * The payload already holds the error message if the session can not be restored.
+   * @returns None
+   */
+  const userClient = await selectSessionClient(ctx, client);
+  if (!userClient) return;
+
+  /**
+   * Sends the reauthentication nonce to the user's email or phone when requested.
+   * The nonce has to be passed back with the new password if secure password change is enabled.
+   * @returns None
+   */
+  if (requestNonce) {
+    const { error } = await userClient.auth.reauthenticate();
+
+    if (error) {
+      ctx.status = 400;
+      payload.msg = {
+        error: true,
+        message: error.message,
+        rawError: error,
+        ...refreshedSessionTokens(ctx),
+      };
+      return;
+    }
+
+    ctx.status = 200;
+    payload.msg = {
+      success: true,
+      message: "Reauthentication nonce sent successfully.",
+      ...refreshedSessionTokens(ctx),
+    };
+
+    next();
+    return;
+  }
+
+  /**
+   * Builds the user attributes from the provided values only.
+   * Empty metadata (e.g. the "{}" default of the input) is left out, as it would turn every update into a metadata write.
+   * @returns None
+   */
+  const attributes: UserAttributes = {
+    ...(userEmail ? { email: userEmail } : {}),
+    ...(userPhone ? { phone: userPhone } : {}),
+    ...(userPassword ? { password: userPassword } : {}),
+    ...(userNonce ? { nonce: userNonce } : {}),
+    ...(_.isEmpty(metadata) ? {} : { data: metadata }),
+  };
+
+  if (_.isEmpty(attributes)) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: "Nothing to update.",
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  /**
+   * Updates the signed in user.
+   * @param {UserAttributes} attributes - The user attributes to update.
+   * @param {string} emailRedirectTo - The URL the email change confirmation link redirects to.
+   * @returns An object containing data and error from the update.
+   */
+  const { data, error } = await userClient.auth.updateUser(
+    attributes,
+    emailRedirectTo ? { emailRedirectTo } : undefined
+  );
+
+  /**
+   * Handles an error by setting the status to 400, constructing an error message object,
+   * and returning early from the function.
+   * @param {Error} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message: error.message,
+      rawError: error,
+      ...refreshedSessionTokens(ctx),
+    };
+    return;
+  }
+
+  ctx.status = 200;
+  payload.msg = {
+    success: true,
+    message: "User updated successfully.",
+    user: data.user,
+    userMetadata: data.user?.user_metadata,
+    ...refreshedSessionTokens(ctx),
+  };
+
+  next();
+}
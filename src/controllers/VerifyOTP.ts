@@ -0,0 +1,252 @@
+import { EcoContext } from "@ecoflow/types";
+import { VerifyOtpParams } from "@supabase/supabase-js";
+import selectSupabaseClient from "../helpers/selectSupabaseClient";
+import isolatedClient from "../helpers/isolatedClient";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
+
+/**
+ * Verification types sent to a phone number.
+ */
+const MOBILE_OTP_TYPES = ["sms", "phone_change"];
+
+/**
+ * Verification types sent to an email address.
+ */
+const EMAIL_OTP_TYPES = [
+  "email",
+  "magiclink",
+  "signup",
+  "invite",
+  "recovery",
+  "email_change",
+];
+
+/**
+ * Verifies the OTP or token hash sent by the "SignIn with OTP" node and signs the user in.
+ * @param {EcoContext} ctx - The context object containing information about the request.
+ * @returns None
+ */
+export default async function VerifyOTP(ctx: EcoContext) {
+  /**
+   * Destructures the ecoFlow object to extract the _ property.
+   * @returns An object containing the _ property from the ecoFlow object.
+   */
+  const { _ } = ecoFlow;
+
+  /**
+   * Destructures the properties 'payload', 'inputs', and 'next' from the given context object.
+   * @param {object} ctx - The context object containing the properties to destructure.
+   * @returns None
+   */
+  const { payload, inputs, next } = ctx;
+
+  /**
+   * Checks if the inputs object is empty or undefined, and sets an error message in the payload if so.
+   * @param {object} inputs - The inputs object to check.
+   * @returns None
+   */
+  if (!inputs || _.isEmpty(inputs)) {
+    payload.msg = {
+      error: true,
+      message: "Missing inputs.",
+    };
+    return;
+  }
+
+  /**
+   * Destructures the inputs object to extract the node inputs.
+   * @param {Object} inputs - The object containing client, type, email, Phone, token, tokenHash, fromPayload, and payloadKey.
+   * @returns None
+   */
+  const {
+    client,
+    type,
+    email,
+    Phone,
+    token,
+    tokenHash,
+    fromPayload,
+    payloadKey,
+  } = inputs;
+
+  /**
+   * Checks if the client object is missing or empty, and sets an error message in the payload if so.
+   * @param {object} client - The client object to check.
+   * @returns None
+   */
+  if (!client || _.isEmpty(client)) {
+    payload.msg = {
+      error: true,
+      message: "Missing client.",
+      status: {
+        client: _.isUndefined(client),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Assigns values to user email, phone, token, token hash, type and captcha token based on the payload object.
+   * @param {boolean} fromPayload - Indicates whether the values should be taken from the payload object.
+   * @param {string} payloadKey - The key in the payload object to access the user data.
+   * @returns None
+   */
+  const userEmail = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.email
+      : payload.msg.email
+    : email;
+  const userPhone = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.phone
+      : payload.msg.phone
+    : Phone;
+  const userToken = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.token
+      : payload.msg.token
+    : token;
+  const userTokenHash = fromPayload
+    ? payloadKey
+      ? payload[payloadKey]?.token_hash
+      : payload.msg.token_hash
+    : tokenHash;
+  const verificationType =
+    (fromPayload
+      ? payloadKey
+        ? payload[payloadKey]?.type
+        : payload.msg.type
+      : undefined) ||
+    type ||
+    (userPhone ? "sms" : "email");
+  const captchaToken = payloadKey
+    ? payload[payloadKey]?.captchaToken
+    : payload.msg.captchaToken;
+
+  /**
+   * Builds the verification parameters. A token hash takes precedence over an email or phone OTP.
+   * If the combination of values is not valid, it sets an error message in the payload.
+   * @returns None
+   */
+  let params: VerifyOtpParams | null = null;
+  if (userTokenHash && EMAIL_OTP_TYPES.includes(verificationType)) {
+    params = { token_hash: userTokenHash, type: verificationType };
+  } else if (
+    userToken &&
+    userPhone &&
+    MOBILE_OTP_TYPES.includes(verificationType)
+  ) {
+    params = {
+      phone: userPhone,
+      token: userToken,
+      type: verificationType,
+      ...(captchaToken ? { options: { captchaToken } } : {}),
+    };
+  } else if (
+    userToken &&
+    userEmail &&
+    EMAIL_OTP_TYPES.includes(verificationType)
+  ) {
+    params = {
+      email: userEmail,
+      token: userToken,
+      type: verificationType,
+      ...(captchaToken ? { options: { captchaToken } } : {}),
+    };
+  }
+
+  if (!params) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      message:
+        "Missing or invalid verification parameters. Provide a token with an email or phone, or a token hash.",
+      status: {
+        type: verificationType,
+        email: _.isUndefined(userEmail),
+        phone: _.isUndefined(userPhone),
+        token: _.isUndefined(userToken),
+        tokenHash: _.isUndefined(userTokenHash),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Retrieves the Supabase client of the selected configuration.
+   * The payload already holds the error message if the client is not available.
+   * @returns None
+   */
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return;
+
+  /**
+   * Verifies with an isolated client, so the session of the user never ends up in the shared client.
+   * @returns None
+   */
+  const verifyClient = isolatedClient(supabase);
+  if (!verifyClient) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
+  }
+
+  /**
+   * Verifies the OTP or token hash with Supabase authentication.
+   * @param {VerifyOtpParams} params - The verification parameters.
+   * @returns An object containing data and error from the verification attempt.
+   */
+  const { data, error } = await verifyClient.auth.verifyOtp(params);
+
+  /**
+   * Handles an error by setting the status to 400, constructing an error message object,
+   * and returning early from the function.
+   * @param {Error} error - The error object to handle
+   * @returns None
+   */
+  if (error) {
+    ctx.status = 400;
+    payload.msg = {
+      error: true,
+      Authenticated: false,
+      message: error.message,
+      rawError: error,
+    };
+    return;
+  }
+
+  /**
+   * Stores the session in cookies if the cookie session mode of the configuration is enabled.
+   * @returns None
+   */
+  const csrfToken = setSessionCookies(ctx, verifyClient, data?.session);
+
+  /**
+   * Sets the status to 200 and constructs a payload object with authentication information.
+   * @param {Object} ctx - The context object to set the status on.
+   * @param {Object} data - The data object containing user authentication information.
+   * @returns None
+   */
+  ctx.status = 200;
+  payload.msg = stripSessionTokens(
+    {
+      success: true,
+      message: "OTP verified successfully.",
+      Authenticated: data?.session ? true : false,
+      user: data?.user,
+      session: data?.session,
+      userMetadata: data?.user?.user_metadata,
+      accessToken: data?.session?.access_token,
+      refreshToken: data?.session?.refresh_token,
+    },
+    csrfToken
+  );
+
+  next();
+}
@@ -1,14 +1,24 @@
-import { AuthError, SupabaseClient } from "@supabase/supabase-js";
+import { AuthError, EmailOtpType, SupabaseClient } from "@supabase/supabase-js";
 import { Context } from "koa";
 import {
   ExchangeCodeForSessionData,
   ExchangeCodeForSessionDataNull,
   ExchangeCodeForSessionResponse,
 } from "../interface/ExchangeCodeForSessionResponse";
+import {
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
+import { resumePkceFlow } from "../helpers/pkceFlow";
+import exchangeCodeForSession from "../helpers/exchangeCodeForSession";
+import { getClientSettings } from "../helpers/clientSettings";
+import allowedRedirect from "../helpers/redirectAllowlist";
+import isolatedClient from "../helpers/isolatedClient";
 
-const exchangeCodeForSession = async (
+const verifyTokenHash = async (
   supabase: SupabaseClient<any, "public", any>,
-  code: string
+  tokenHash: string,
+  type: EmailOtpType
 ): Promise<ExchangeCodeForSessionResponse> => {
   let error: AuthError | null = null;
 
@@ -18,24 +28,94 @@ const exchangeCodeForSession = async (
   };
 
   try {
+    const verifyClient = isolatedClient(supabase);
+    if (!verifyClient)
+      throw new AuthError("Unknown supabase client configuration.", 500);
+
     const { data: sessionData, error: sessionError } =
-      await supabase.auth.exchangeCodeForSession(code);
+      await verifyClient.auth.verifyOtp({ token_hash: tokenHash, type });
 
-    data = sessionData;
+    if (sessionData.user && sessionData.session)
+      data = { user: sessionData.user, session: sessionData.session };
     error = sessionError;
-  } catch (exchangeError: any) {
-    error = exchangeError;
+  } catch (verifyError: any) {
+    error = verifyError;
   }
 
   return { data, error };
 };
 
+/**
+ * Appends parameters to the query or the fragment of a URL.
+ * @param {string} url - The URL to extend.
+ * @param {Record<string, string>} params - The parameters to append.
+ * @param {boolean} fragment - Whether the parameters are appended to the fragment instead of the query.
+ * @returns {string} The extended URL.
+ */
+const withParams = (
+  url: string,
+  params: Record<string, string>,
+  fragment: boolean = false
+): string => {
+  const target = new URL(url);
+  const searchParams = new URLSearchParams(
+    fragment ? target.hash.slice(1) : target.search
+  );
+  Object.entries(params).forEach(([key, value]) =>
+    searchParams.set(key, value)
+  );
+
+  if (fragment) target.hash = searchParams.toString();
+  else target.search = searchParams.toString();
+
+  return target.toString();
+};
+
+/**
+ * Resolves a configured redirect URL, which may be relative to the EcoFlow server.
+ * @param {string | undefined} url - The configured URL.
+ * @param {string} base - The URL relative URLs are resolved against.
+ * @returns {string | undefined} The absolute URL or undefined if it is not set or invalid.
+ */
+const absoluteURL = (
+  url: string | undefined,
+  base: string
+): string | undefined => {
+  if (!url) return undefined;
+
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * HTTP status codes of the OAuth error responses a provider or Supabase Auth redirects with.
+ */
+const PROVIDER_ERROR_STATUS: Record<string, number> = {
+  access_denied: 403,
+  unauthorized_client: 403,
+  server_error: 502,
+  temporarily_unavailable: 503,
+};
+
 export default async function callbackController(ctx: Context) {
-  const { _, moduleConfigs } = ecoFlow;
+  const { _, log, moduleConfigs, server } = ecoFlow;
 
-  const { code, next, clientConfigID } = ctx.query;
+  const {
+    code,
+    token_hash,
+    type,
+    next,
+    clientConfigID,
+    provider,
+    error: providerError,
+    error_code: providerErrorCode,
+    error_description: providerErrorDescription,
+  } = ctx.query;
 
-  if (!code) {
+  if (!code && !token_hash && !providerError) {
     ctx.body = {
       error: true,
       message: "No code provided",
@@ -87,12 +167,108 @@ export default async function callbackController(ctx: Context) {
     return;
   }
 
-  const { data, error } = await exchangeCodeForSession(
-    supabase,
-    code as string
+  const redirects = getClientSettings(supabase)?.redirects;
+  const configuredSuccessURL = absoluteURL(
+    redirects?.successURL,
+    server.baseUrl
   );
+  const failureURL = absoluteURL(redirects?.failureURL, server.baseUrl);
+
+  /**
+   * Handles logins the user cancelled or the provider failed. The error is logged and sent
+   * to the failure URL, or answered as an error payload if no failure URL is set.
+   * @returns None
+   */
+  if (providerError) {
+    const reason = `${providerError}`;
+    const errorCode = providerErrorCode ? `${providerErrorCode}` : reason;
+    const description = providerErrorDescription
+      ? `${providerErrorDescription}`
+      : reason;
+
+    log.error(
+      `Supabase login failed for client "${clientConfigID}"${
+        provider ? ` (${provider})` : ""
+      }: ${reason} (${errorCode}) ${description}`
+    );
+
+    if (failureURL) {
+      ctx.redirect(
+        withParams(failureURL, {
+          error: reason,
+          error_code: errorCode,
+          error_description: description,
+        })
+      );
+      return;
+    }
+
+    ctx.status = PROVIDER_ERROR_STATUS[reason] || 400;
+    ctx.body = {
+      msg: {
+        error: true,
+        reason,
+        code: errorCode,
+        message: description,
+      },
+    };
+    return;
+  }
+
+  /**
+   * Resumes the login attempt that started the flow. Codes of unknown or expired attempts are rejected
+   * without calling Supabase, as there is no code verifier to exchange them with.
+   * @returns None
+   */
+  const pkceClient = code ? resumePkceFlow(ctx, supabase) : null;
+  if (code && !pkceClient) {
+    const message = "Unknown or expired login attempt.";
+
+    if (failureURL) {
+      ctx.redirect(
+        withParams(failureURL, {
+          error: "invalid_request",
+          error_code: "flow_state_not_found",
+          error_description: message,
+        })
+      );
+      return;
+    }
+
+    ctx.status = 400;
+    ctx.body = {
+      msg: {
+        error: true,
+        code: "flow_state_not_found",
+        message,
+      },
+    };
+    return;
+  }
+
+  /**
+   * Exchanges the code, or verifies the token hash of an email link, for a session.
+   * @returns An object containing data and error from the exchange.
+   */
+  const { data, error } = pkceClient
+    ? await exchangeCodeForSession(pkceClient, code as string)
+    : await verifyTokenHash(
+        supabase,
+        token_hash as string,
+        (type as EmailOtpType) || "email"
+      );
 
   if (error) {
+    if (failureURL) {
+      ctx.redirect(
+        withParams(failureURL, {
+          error: error.code || "server_error",
+          error_description: error.message,
+        })
+      );
+      return;
+    }
+
     ctx.body = {
       msg: {
         error: true,
@@ -103,14 +279,74 @@ export default async function callbackController(ctx: Context) {
     return;
   }
 
+  const csrfToken = setSessionCookies(ctx, supabase, data?.session);
+
+  /**
+   * Only "next" targets passing the allowlist of the configuration are followed or echoed.
+   * @returns None
+   */
+  const nextURL = _.isString(next)
+    ? allowedRedirect(
+        redirects,
+        next as string,
+        configuredSuccessURL || server.baseUrl
+      )
+    : null;
+  const successURL = nextURL || configuredSuccessURL;
+
+  /**
+   * Redirects the browser after a successful login. Without cookie session mode
+   * the session is handed over in the URL fragment, which never reaches a server.
+   * @returns None
+   */
+  if (successURL && (configuredSuccessURL || failureURL)) {
+    ctx.redirect(
+      csrfToken || !data?.session
+        ? successURL
+        : withParams(
+            successURL,
+            {
+              access_token: data.session.access_token,
+              refresh_token: data.session.refresh_token,
+              expires_in: `${data.session.expires_in}`,
+              expires_at: `${data.session.expires_at || ""}`,
+              token_type: data.session.token_type,
+              ...(data.session.provider_token
+                ? { provider_token: data.session.provider_token }
+                : {}),
+              ...(data.session.provider_refresh_token
+                ? {
+                    provider_refresh_token: data.session.provider_refresh_token,
+                  }
+                : {}),
+              ...(type ? { type: type as string } : {}),
+            },
+            true
+          )
+    );
+    return;
+  }
+
+  /**
+   * Responds with the session. In cookie session mode the tokens stay in the HttpOnly cookies.
+   * @returns None
+   */
   ctx.body = {
-    msg: {
-      success: true,
-      message: "Authentication successful",
-      user: data?.user,
-      session: data?.session,
-      userMetadata: data?.user?.user_metadata,
-      ...(next ? { redirect_url: next } : {}),
-    },
+    msg: stripSessionTokens(
+      {
+        success: true,
+        message: "Authentication successful",
+        user: data?.user,
+        userMetadata: data?.user?.user_metadata,
+        session: data?.session,
+        accessToken: data?.session?.access_token,
+        refreshToken: data?.session?.refresh_token,
+        providerToken: data?.session?.provider_token,
+        providerRefreshToken: data?.session?.provider_refresh_token,
+        ...(type ? { type } : {}),
+        ...(nextURL ? { redirect_url: nextURL } : {}),
+      },
+      csrfToken
+    ),
   };
 }
@@ -1,5 +1,13 @@
 import { EcoContext } from "@ecoflow/types";
 import { SupabaseClient } from "@supabase/supabase-js";
+import isolatedClient from "../helpers/isolatedClient";
+import {
+  csrfRejected,
+  readChunkedCookie,
+  sessionCookieOptions,
+  setSessionCookies,
+  stripSessionTokens,
+} from "../helpers/sessionCookies";
 
 /**
  * Asynchronously refreshes the session using the provided EcoContext.
@@ -56,29 +64,6 @@ export default async function refreshSession(ctx: EcoContext) {
     return;
   }
 
-  /**
-   * Checks if a refresh token is missing or invalid, and updates the payload message accordingly.
-   * @param {boolean} passByPayload - Flag indicating whether the token is passed by payload.
-   * @param {string} payload - The payload object containing the token.
-   * @param {string} refreshToken - The refresh token to be checked.
-   * @param {string} client - The client information.
-   * @returns None
-   */
-  const token = passByPayload ? payload[refreshToken] : refreshToken;
-  if (_.isUndefined(token) || _.isEmpty(token)) {
-    payload.msg = {
-      error: true,
-      message: "Missing or invalid refresh token.",
-      status: {
-        client: _.isUndefined(client),
-        actualToken: token,
-        refreshToken: _.isUndefined(refreshToken),
-        passByPayload: _.isUndefined(passByPayload),
-      },
-    };
-    return;
-  }
-
   /**
    * Selects the configuration manager for the "ecoflow-supabase-auth" package and checks if it exists.
    * If the configuration manager does not exist, it sets an error message in the payload object.
@@ -123,11 +108,61 @@ export default async function refreshSession(ctx: EcoContext) {
   }
 
   /**
-   * Refreshes the current user session using the provided refresh token.
+   * Checks if a refresh token is missing or invalid, and updates the payload message accordingly.
+   * In cookie session mode the refresh token cookie is used if no token is provided.
+   * @param {boolean} passByPayload - Flag indicating whether the token is passed by payload.
+   * @param {string} payload - The payload object containing the token.
+   * @param {string} refreshToken - The refresh token to be checked.
+   * @param {string} client - The client information.
+   * @returns None
+   */
+  const cookieOptions = sessionCookieOptions(supabase);
+  const inputToken = passByPayload ? payload[refreshToken] : refreshToken;
+  const cookieToken =
+    !inputToken && cookieOptions
+      ? readChunkedCookie(ctx, `${cookieOptions.prefix}-refresh-token`)
+      : undefined;
+  const token = inputToken || cookieToken;
+  if (_.isUndefined(token) || _.isEmpty(token)) {
+    payload.msg = {
+      error: true,
+      message: "Missing or invalid refresh token.",
+      status: {
+        client: _.isUndefined(client),
+        actualToken: token,
+        refreshToken: _.isUndefined(refreshToken),
+        passByPayload: _.isUndefined(passByPayload),
+      },
+    };
+    return;
+  }
+
+  /**
+   * Requests refreshed with the session cookie have to carry the CSRF token.
+   * @returns None
+   */
+  if (cookieToken && csrfRejected(ctx, supabase)) return;
+
+  /**
+   * Refreshes with an isolated client, so the refreshed session never ends up in the shared client.
+   * @returns None
+   */
+  const refreshClient = isolatedClient(supabase);
+  if (!refreshClient) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return;
+  }
+
+  /**
+   * Refreshes the user session using the provided refresh token.
    * @param {string} token - The refresh token used to refresh the session.
    * @returns An object containing the refreshed session data and any potential errors.
    */
-  const { data, error } = await supabase.auth.refreshSession({
+  const { data, error } = await refreshClient.auth.refreshSession({
     refresh_token: token,
   });
 
@@ -154,13 +189,17 @@ export default async function refreshSession(ctx: EcoContext) {
    * @returns None
    */
   if (data && data.session && data.user) {
-    payload.msg = {
-      authenticated: data.session ? true : false,
-      user: data.user,
-      session: data.session,
-      accessToken: data.session.access_token,
-      refreshToken: data.session.refresh_token,
-    };
+    const csrfToken = setSessionCookies(ctx, supabase, data.session);
+    payload.msg = stripSessionTokens(
+      {
+        authenticated: data.session ? true : false,
+        user: data.user,
+        session: data.session,
+        accessToken: data.session.access_token,
+        refreshToken: data.session.refresh_token,
+      },
+      csrfToken
+    );
     next();
     return;
   }
@@ -0,0 +1,127 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getClientSettings } from "./clientSettings";
+
+/**
+ * OAuth providers of Supabase Auth. Only these entries of the "external" auth settings are listed as providers,
+ * the others are sign-in methods without an OAuth flow (e.g. email, phone, anonymous_users, saml, web3_solana, web3_ethereum).
+ * They are also offered when the auth settings of a project cannot be read.
+ */
+export const OAUTH_PROVIDERS = [
+  "apple",
+  "azure",
+  "bitbucket",
+  "discord",
+  "facebook",
+  "figma",
+  "github",
+  "gitlab",
+  "google",
+  "kakao",
+  "keycloak",
+  "linkedin",
+  "linkedin_oidc",
+  "notion",
+  "slack",
+  "slack_oidc",
+  "spotify",
+  "twitch",
+  "twitter",
+  "workos",
+  "zoom",
+  "fly",
+];
+
+/**
+ * Enabled OAuth providers of a project.
+ */
+interface EnabledProviders {
+  /**
+   * Names of the enabled external providers.
+   * @type {string[]}
+   */
+  providers: string[];
+
+  /**
+   * Time the auth settings were fetched at, in milliseconds.
+   * @type {number}
+   */
+  fetchedAt: number;
+}
+
+/**
+ * Auth settings are cached for 5 minutes before the runtime check reads them again.
+ */
+const AUTH_SETTINGS_TTL = 300000;
+
+/**
+ * Enabled providers keyed by the client, so they are released together with the client when a configuration is replaced.
+ */
+const enabledProviders = new WeakMap<
+  SupabaseClient<any, "public", any>,
+  EnabledProviders
+>();
+
+/**
+ * Reads the auth settings of the project of a client and caches its enabled OAuth providers.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the configuration.
+ * @returns {Promise<string[] | null>} The enabled providers or null if the settings cannot be read.
+ */
+export async function loadAuthProviders(
+  supabase: SupabaseClient<any, "public", any>
+): Promise<string[] | null> {
+  const settings = getClientSettings(supabase);
+  if (!settings) return null;
+
+  try {
+    const response = await fetch(`${settings.projectURL}/auth/v1/settings`, {
+      headers: { apikey: settings.apiKey },
+    });
+    if (!response.ok) return null;
+
+    const { external } = (await response.json()) as {
+      external?: Record<string, boolean>;
+    };
+    const providers = Object.entries(external || {})
+      .filter(
+        ([name, enabled]) => enabled === true && OAUTH_PROVIDERS.includes(name)
+      )
+      .map(([name]) => name)
+      .sort();
+
+    enabledProviders.set(supabase, { providers, fetchedAt: Date.now() });
+    return providers;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Retrieves the cached enabled OAuth providers of a client without reading the auth settings.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the configuration.
+ * @returns {string[] | null} The enabled providers or null if the settings were never read.
+ */
+export function cachedAuthProviders(
+  supabase: SupabaseClient<any, "public", any>
+): string[] | null {
+  return enabledProviders.get(supabase)?.providers || null;
+}
+
+/**
+ * Checks if an OAuth provider is still enabled for the project of a client, reading the auth settings again if the cache is stale.
+ * Providers are allowed if the settings cannot be read, Supabase Auth rejects disabled providers itself then.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the configuration.
+ * @param {string} provider - The name of the provider.
+ * @returns {Promise<boolean>} True if the provider is enabled or the settings are not available.
+ */
+export async function authProviderEnabled(
+  supabase: SupabaseClient<any, "public", any>,
+  provider: string
+): Promise<boolean> {
+  const cached = enabledProviders.get(supabase);
+  const providers =
+    cached && Date.now() - cached.fetchedAt < AUTH_SETTINGS_TTL
+      ? cached.providers
+      : (await loadAuthProviders(supabase)) || cached?.providers;
+
+  return providers ? providers.includes(provider) : true;
+}
@@ -0,0 +1,128 @@
+import { User } from "@supabase/supabase-js";
+import { AuthorizationRule } from "../interface/AuthorizationRule";
+
+/**
+ * Parses the rule set of a Code input (or a rule array read from the payload).
+ * @param {any} rules - The Code input value ({ value, validate }) or an array of rules.
+ * @returns {AuthorizationRule[]} The parsed rules.
+ * @throws {Error} If a rule is not valid.
+ */
+export function parseAuthorizationRules(rules: any): AuthorizationRule[] {
+  const { _ } = ecoFlow;
+
+  const ruleSet: any = _.isArray(rules)
+    ? rules
+    : rules?.validate && !_.isEmpty(rules.value)
+    ? JSON.parse(rules.value)
+    : [];
+
+  if (!_.isArray(ruleSet)) throw new Error("Rules must be an array.");
+
+  return ruleSet.map((rule: any, index: number): AuthorizationRule => {
+    if (!_.isPlainObject(rule)) throw new Error(`Rule ${index} is invalid.`);
+
+    ["roles", "amr", "providers"].forEach((list) => {
+      if (!_.isUndefined(rule[list]) && !_.isArray(rule[list]))
+        throw new Error(`Rule ${index} has an invalid ${list} list.`);
+    });
+
+    if (!_.isUndefined(rule.claims) && !_.isPlainObject(rule.claims))
+      throw new Error(`Rule ${index} has invalid claims.`);
+
+    return {
+      ...rule,
+      name:
+        _.isString(rule.name) && !_.isEmpty(rule.name)
+          ? rule.name
+          : `rule ${index}`,
+    };
+  });
+}
+
+/**
+ * Checks if a rule set needs details only the Auth server knows, i.e. the confirmation of the email or phone.
+ * Access tokens do not carry them, so users built from the token claims have to be fetched first.
+ * @param {AuthorizationRule[]} rules - The rules to check.
+ * @returns {boolean} True if a rule checks the confirmation of the email or phone.
+ */
+export function needsServerUser(rules: AuthorizationRule[]): boolean {
+  return rules.some((rule) => rule.emailConfirmed || rule.phoneConfirmed);
+}
+
+/**
+ * Checks if a claim value matches the expected value. Array values accept any of their entries.
+ * @param {any} actual - The value of the claim.
+ * @param {any} expected - The expected value.
+ * @returns {boolean} True if the claim matches.
+ */
+const claimMatches = (actual: any, expected: any): boolean => {
+  const { _ } = ecoFlow;
+
+  if (_.isArray(expected))
+    return expected.some((value: any) => claimMatches(actual, value));
+  if (_.isArray(actual))
+    return actual.some((value: any) => _.isEqual(value, expected));
+
+  return _.isEqual(actual, expected);
+};
+
+/**
+ * Checks the rules against the user and the JWT claims.
+ * @param {AuthorizationRule[]} rules - The rules to check.
+ * @param {User} user - The authenticated user.
+ * @param {Record<string, any>} claims - The claims of the access token.
+ * @returns {AuthorizationRule | null} The first rule which failed or null if every rule passed.
+ */
+export function failedAuthorizationRule(
+  rules: AuthorizationRule[],
+  user: User,
+  claims: Record<string, any>
+): AuthorizationRule | null {
+  const { _ } = ecoFlow;
+
+  const appMetadata = user.app_metadata || {};
+  const roles: string[] = _.compact(
+    _.flatten([appMetadata.roles, appMetadata.role])
+  );
+  const providers: string[] = _.uniq(
+    _.compact(
+      _.flatten([
+        appMetadata.providers,
+        appMetadata.provider,
+        (user.identities || []).map(({ provider }) => provider),
+      ])
+    )
+  );
+  const methods: string[] = (claims.amr || []).map((entry: any) =>
+    _.isString(entry) ? entry : entry?.method
+  );
+
+  return (
+    rules.find((rule) => {
+      if (rule.roles && !rule.roles.some((role) => roles.includes(role)))
+        return true;
+
+      if (
+        rule.claims &&
+        !Object.entries(rule.claims).every(([claim, expected]) =>
+          claimMatches(_.get(claims, claim), expected)
+        )
+      )
+        return true;
+
+      if (rule.emailConfirmed && !user.email_confirmed_at) return true;
+      if (rule.phoneConfirmed && !user.phone_confirmed_at) return true;
+
+      if (rule.amr && !rule.amr.some((method) => methods.includes(method)))
+        return true;
+
+      if (
+        rule.providers &&
+        !rule.providers.some((provider) => providers.includes(provider))
+      )
+        return true;
+
+      return false;
+    }) || null
+  );
+}
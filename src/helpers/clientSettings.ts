@@ -0,0 +1,35 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { SupabaseClientSettings } from "../interface/SupabaseClientSettings";
+
+/**
+ * Settings of every client created by the configuration node, keyed by the client itself
+ * so they are released together with the client when a configuration is replaced.
+ */
+const settings = new WeakMap<
+  SupabaseClient<any, "public", any>,
+  SupabaseClientSettings
+>();
+
+/**
+ * Stores the settings a Supabase client was created with.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client.
+ * @param {SupabaseClientSettings} clientSettings - The settings of the client.
+ * @returns None
+ */
+export function setClientSettings(
+  supabase: SupabaseClient<any, "public", any>,
+  clientSettings: SupabaseClientSettings
+): void {
+  settings.set(supabase, clientSettings);
+}
+
+/**
+ * Retrieves the settings a Supabase client was created with.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client.
+ * @returns {SupabaseClientSettings | undefined} The settings or undefined if the client is unknown.
+ */
+export function getClientSettings(
+  supabase: SupabaseClient<any, "public", any>
+): SupabaseClientSettings | undefined {
+  return settings.get(supabase);
+}
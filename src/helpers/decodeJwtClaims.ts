@@ -0,0 +1,17 @@
+/**
+ * Decodes the claims of a JWT without verifying its signature.
+ * @param {string} token - The JWT to decode.
+ * @returns {Record<string, any> | null} The claims or null if the token is not a JWT.
+ */
+export default function decodeJwtClaims(
+  token: string
+): Record<string, any> | null {
+  try {
+    const claims = JSON.parse(
+      Buffer.from(token.split(".")[1], "base64url").toString("utf8")
+    );
+    return claims && typeof claims === "object" ? claims : null;
+  } catch {
+    return null;
+  }
+}
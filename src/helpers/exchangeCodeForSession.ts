@@ -0,0 +1,37 @@
+import { AuthError, SupabaseClient } from "@supabase/supabase-js";
+import {
+  ExchangeCodeForSessionData,
+  ExchangeCodeForSessionDataNull,
+  ExchangeCodeForSessionResponse,
+} from "../interface/ExchangeCodeForSessionResponse";
+
+/**
+ * Exchanges an auth code of an OAuth, magic-link or recovery login for a session.
+ * Errors thrown by the client are returned like the errors of the Supabase response.
+ * @param {SupabaseClient<any, "public", any>} supabase - The client holding the code verifier of the login.
+ * @param {string} code - The auth code sent to the callback URL.
+ * @returns {Promise<ExchangeCodeForSessionResponse>} The user and session, or the error of the exchange.
+ */
+export default async function exchangeCodeForSession(
+  supabase: SupabaseClient<any, "public", any>,
+  code: string
+): Promise<ExchangeCodeForSessionResponse> {
+  let error: AuthError | null = null;
+
+  let data: ExchangeCodeForSessionData | ExchangeCodeForSessionDataNull = {
+    user: null,
+    session: null,
+  };
+
+  try {
+    const { data: sessionData, error: sessionError } =
+      await supabase.auth.exchangeCodeForSession(code);
+
+    data = sessionData;
+    error = sessionError;
+  } catch (exchangeError: any) {
+    error = exchangeError;
+  }
+
+  return { data, error };
+}
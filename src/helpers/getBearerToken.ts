@@ -0,0 +1,61 @@
+import { EcoContext } from "@ecoflow/types";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { readChunkedCookie, sessionCookieOptions } from "./sessionCookies";
+
+/**
+ * Places a bearer token can be read from.
+ */
+export type BearerTokenSource = "header" | "payload" | "cookie";
+
+/**
+ * Reads a bearer token from the request header, a payload key or a cookie.
+ * @param {EcoContext} ctx - The context object containing the request and payload.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {BearerTokenSource} source - Where the token should be read from. Default is "header".
+ * @param {string} key - The payload key or cookie name holding the token.
+ * @returns {string | undefined} The token or undefined if it could not be found.
+ */
+export default function getBearerToken(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>,
+  source: BearerTokenSource = "header",
+  key?: string
+): string | undefined {
+  const { _ } = ecoFlow;
+  const { payload, request } = ctx;
+
+  /**
+   * Reads the token from the given payload key. Nested keys can be given as a dot separated path.
+   * @param {string} key - The payload key holding the token. Default is "msg.accessToken".
+   * @returns The token or undefined.
+   */
+  if (source === "payload") {
+    const token = _.get(
+      payload,
+      key && !_.isEmpty(key) ? key : "msg.accessToken"
+    );
+    return _.isString(token) && !_.isEmpty(token) ? token : undefined;
+  }
+
+  /**
+   * Reads the token from the given cookie name. Cookies split into chunks are joined again.
+   * @param {string} key - The cookie holding the token. Default is the access token cookie of the configuration.
+   * @returns The token or undefined.
+   */
+  if (source === "cookie") {
+    const token = readChunkedCookie(
+      ctx,
+      key && !_.isEmpty(key)
+        ? key
+        : `${sessionCookieOptions(supabase)?.prefix || "sb"}-access-token`
+    );
+    return token && !_.isEmpty(token) ? token : undefined;
+  }
+
+  /**
+   * Extracts the token from the authorization header of the request.
+   * @returns The token or undefined.
+   */
+  const token = request.headers.authorization?.split(" ")[1];
+  return token && !_.isEmpty(token) ? token : undefined;
+}
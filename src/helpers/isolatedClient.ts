@@ -0,0 +1,34 @@
+import {
+  createClient,
+  SupabaseClient,
+  SupabaseClientOptions,
+} from "@supabase/supabase-js";
+import { getClientSettings, setClientSettings } from "./clientSettings";
+
+/**
+ * Creates a new Supabase client for the same project and API key as the given client.
+ * The new client keeps its session in memory and has its own realtime connection,
+ * so it never shares state with the client of the configuration. It keeps the settings of the given client.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {SupabaseClientOptions<"public">["auth"]} auth - Auth options overriding the in-memory session defaults.
+ * @returns {SupabaseClient<any, "public", any> | null} The new client or null if the client settings are unknown.
+ */
+export default function isolatedClient(
+  supabase: SupabaseClient<any, "public", any>,
+  auth: SupabaseClientOptions<"public">["auth"] = {}
+): SupabaseClient<any, "public", any> | null {
+  const settings = getClientSettings(supabase);
+  if (!settings) return null;
+
+  const client = createClient(settings.projectURL, settings.apiKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+      ...auth,
+    },
+  });
+  setClientSettings(client, settings);
+
+  return client;
+}
@@ -0,0 +1,39 @@
+import { OauthOptions } from "../interface/OauthOptions";
+
+/**
+ * Builds the scope and query parameter options of a provider authorization URL from the node inputs.
+ * Scopes may be separated by spaces or commas, the query parameters are a JSON object of a Code input.
+ * @param {string} scopes - The scopes requested from the provider.
+ * @param {object} queryParams - The Code input holding a JSON object of query parameters.
+ * @returns {OauthOptions} The options to spread into the OAuth options, without empty entries.
+ * @throws {Error} If the query parameters are no JSON object.
+ */
+export default function oauthOptions(
+  scopes: any,
+  queryParams: any
+): OauthOptions {
+  const { _ } = ecoFlow;
+
+  const parsedParams =
+    queryParams?.validate && !_.isEmpty(queryParams.value)
+      ? JSON.parse(queryParams.value)
+      : {};
+  if (!_.isPlainObject(parsedParams))
+    throw new Error("Query params must be a JSON object.");
+
+  const providerScopes = _.isString(scopes)
+    ? scopes
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .join(" ")
+    : "";
+
+  return {
+    ...(providerScopes ? { scopes: providerScopes } : {}),
+    ...(_.isEmpty(parsedParams)
+      ? {}
+      : {
+          queryParams: _.mapValues(parsedParams, (value: any) => `${value}`),
+        }),
+  };
+}
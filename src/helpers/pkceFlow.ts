@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import { EcoContext } from "@ecoflow/types";
+import { SupabaseClient, SupportedStorage } from "@supabase/supabase-js";
+import isolatedClient from "./isolatedClient";
+import { getClientSettings } from "./clientSettings";
+
+/**
+ * Code verifiers are kept as long as the default email link expiry of Supabase Auth (1 hour).
+ */
+const FLOW_TTL = 3600000;
+
+/**
+ * Name of the query parameter carrying the flow ID back to the callback route.
+ */
+export const FLOW_QUERY_PARAM = "flow_id";
+
+/**
+ * Code verifiers of pending logins keyed by "<flow ID>:<storage key>".
+ */
+const verifiers = new Map<string, { value: string; expiresAt: number }>();
+
+/**
+ * Builds a storage adapter that keeps the code verifier of a single login attempt.
+ * Sessions are only kept in the given in-memory store of the client, they are handed to the flow otherwise.
+ * @param {string} flowId - The ID of the login attempt.
+ * @param {Record<string, string>} sessionStore - In-memory store for the session of a signed in user, if any.
+ * @returns {SupportedStorage} The storage adapter.
+ */
+const flowStorage = (
+  flowId: string,
+  sessionStore?: Record<string, string>
+): SupportedStorage => ({
+  getItem: (key: string) => {
+    if (sessionStore && !key.endsWith("-code-verifier"))
+      return sessionStore[key] ?? null;
+
+    const entry = verifiers.get(`${flowId}:${key}`);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  },
+  setItem: (key: string, value: string) => {
+    if (!key.endsWith("-code-verifier")) {
+      if (sessionStore) sessionStore[key] = value;
+      return;
+    }
+
+    const now = Date.now();
+    verifiers.forEach(({ expiresAt }, storedKey) => {
+      if (expiresAt <= now) verifiers.delete(storedKey);
+    });
+    verifiers.set(`${flowId}:${key}`, { value, expiresAt: now + FLOW_TTL });
+  },
+  removeItem: (key: string) => {
+    if (sessionStore) delete sessionStore[key];
+    verifiers.delete(`${flowId}:${key}`);
+  },
+});
+
+/**
+ * Builds the name of the cookie carrying the flow ID to the callback route.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @returns {string} The cookie name.
+ */
+const flowCookie = (supabase: SupabaseClient<any, "public", any>): string =>
+  `${getClientSettings(supabase)?.sessionCookies?.prefix || "sb"}-pkce-flow`;
+
+/**
+ * Creates a PKCE client whose code verifier is stored under the given login attempt.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {string} flowId - The ID of the login attempt.
+ * @param {boolean} keepSession - Whether the client keeps the session it is signed in with.
+ * @returns {SupabaseClient<any, "public", any> | null} The client or null if the client settings are unknown.
+ */
+const flowClient = (
+  supabase: SupabaseClient<any, "public", any>,
+  flowId: string,
+  keepSession: boolean = false
+): SupabaseClient<any, "public", any> | null =>
+  isolatedClient(supabase, {
+    flowType: "pkce",
+    persistSession: true,
+    storage: flowStorage(flowId, keepSession ? {} : undefined),
+  });
+
+/**
+ * Starts a PKCE login attempt for the browser of the request.
+ * The flow ID is sent to the browser in an HttpOnly cookie and, if enabled for the configuration,
+ * appended to the redirect URL, so the callback finds the code verifier of this attempt.
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {string} redirectTo - The URL Supabase redirects to after the login.
+ * @param {boolean} keepSession - Whether the returned client keeps a session, e.g. to link an identity to a signed in user. Default is false.
+ * @returns The client starting the login, the flow ID and the redirect URL, or null if the client settings are unknown.
+ */
+export function startPkceFlow(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>,
+  redirectTo: string,
+  keepSession: boolean = false
+): {
+  client: SupabaseClient<any, "public", any>;
+  flowId: string;
+  redirectTo: string;
+} | null {
+  const flowId = crypto.randomBytes(16).toString("base64url");
+  const client = flowClient(supabase, flowId, keepSession);
+  if (!client) return null;
+
+  const settings = getClientSettings(supabase);
+  ctx.cookies.set(flowCookie(supabase), flowId, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: FLOW_TTL,
+    overwrite: true,
+    ...(settings?.sessionCookies?.domain
+      ? { domain: settings.sessionCookies.domain }
+      : {}),
+  });
+
+  if (!settings?.pkceFlowParam) return { client, flowId, redirectTo };
+
+  const url = new URL(redirectTo);
+  url.searchParams.set(FLOW_QUERY_PARAM, flowId);
+  return { client, flowId, redirectTo: url.toString() };
+}
+
+/**
+ * Resumes the PKCE login attempt of a callback request.
+ * The flow ID is read from the query parameter first and from the cookie otherwise.
+ * @param {EcoContext} ctx - The context object containing the query and the cookies.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @returns {SupabaseClient<any, "public", any> | null} The client holding the code verifier or null if no attempt is known.
+ */
+export function resumePkceFlow(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>
+): SupabaseClient<any, "public", any> | null {
+  const flowId =
+    (ctx.query[FLOW_QUERY_PARAM] as string | undefined) ||
+    ctx.cookies.get(flowCookie(supabase));
+  if (!flowId) return null;
+
+  const domain = getClientSettings(supabase)?.sessionCookies?.domain;
+  ctx.cookies.set(flowCookie(supabase), null, {
+    path: "/",
+    overwrite: true,
+    ...(domain ? { domain } : {}),
+  });
+  return flowClient(supabase, flowId);
+}
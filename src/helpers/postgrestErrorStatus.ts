@@ -0,0 +1,39 @@
+import { PostgrestError } from "@supabase/supabase-js";
+
+/**
+ * HTTP status codes for the PostgreSQL and PostgREST error codes a flow is most likely to hit.
+ */
+const ERROR_STATUS: Record<string, number> = {
+  "23502": 400, // not_null_violation
+  "23503": 409, // foreign_key_violation
+  "23505": 409, // unique_violation
+  "23514": 400, // check_violation
+  "22P02": 400, // invalid_text_representation
+  "42501": 403, // insufficient_privilege (RLS)
+  "42P01": 404, // undefined_table
+  "42703": 400, // undefined_column
+  "42883": 404, // undefined_function
+  P0001: 400, // raise_exception
+  PGRST116: 406, // single row requested, none or many returned
+  PGRST202: 404, // function not found in schema cache
+  PGRST204: 400, // column not found in schema cache
+  PGRST205: 404, // table not found in schema cache
+  PGRST301: 401, // invalid JWT
+  PGRST302: 401, // anonymous access disabled
+};
+
+/**
+ * Converts a PostgREST error into an HTTP status code.
+ * @param {PostgrestError} error - The PostgREST error.
+ * @param {number} status - The HTTP status returned by PostgREST.
+ * @returns {number} The HTTP status code for the error.
+ */
+export default function postgrestErrorStatus(
+  error: PostgrestError,
+  status?: number
+): number {
+  if (error.code && ERROR_STATUS[error.code]) return ERROR_STATUS[error.code];
+  if (error.code?.startsWith("PGRST1")) return 400;
+  if (status && status >= 400) return status;
+  return 500;
+}
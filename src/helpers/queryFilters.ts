@@ -0,0 +1,101 @@
+import { EcoContext } from "@ecoflow/types";
+import { QueryFilter, QueryModifiers } from "../interface/QueryFilter";
+
+/**
+ * Operators accepted in a filter rule.
+ */
+const OPERATORS = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "like",
+  "ilike",
+  "is",
+  "contains",
+];
+
+/**
+ * Parses the filters of a Code input (or a filter array read from the payload).
+ * Values with a payloadKey are resolved from the payload.
+ * @param {EcoContext["payload"]} payload - The payload object to read filter values from.
+ * @param {any} filters - The Code input value ({ value, validate }) or an array of filters.
+ * @returns {QueryFilter[]} The parsed filters.
+ * @throws {Error} If a filter is not valid.
+ */
+export function parseQueryFilters(
+  payload: EcoContext["payload"],
+  filters: any
+): QueryFilter[] {
+  const { _ } = ecoFlow;
+
+  const rules: any = _.isArray(filters)
+    ? filters
+    : filters?.validate && !_.isEmpty(filters.value)
+    ? JSON.parse(filters.value)
+    : [];
+
+  if (!_.isArray(rules)) throw new Error("Filters must be an array.");
+
+  return rules.map((rule: any, index: number): QueryFilter => {
+    if (!rule || !_.isString(rule.column) || _.isEmpty(rule.column))
+      throw new Error(`Filter ${index} is missing a column.`);
+
+    if (!OPERATORS.includes(rule.operator))
+      throw new Error(
+        `Filter ${index} has an invalid operator "${rule.operator}".`
+      );
+
+    return {
+      column: rule.column,
+      operator: rule.operator,
+      value: rule.payloadKey ? _.get(payload, rule.payloadKey) : rule.value,
+    };
+  });
+}
+
+/**
+ * Applies the filters to a PostgREST filter builder.
+ * @param {any} query - The PostgREST filter builder.
+ * @param {QueryFilter[]} filters - The filters to apply.
+ * @returns {any} The filtered builder.
+ */
+export function applyQueryFilters(query: any, filters: QueryFilter[]): any {
+  return filters.reduce((builder, { column, operator, value }) => {
+    switch (operator) {
+      case "in":
+        return builder.in(column, Array.isArray(value) ? value : [value]);
+      case "contains":
+        return builder.contains(column, value);
+      default:
+        return builder[operator](column, value);
+    }
+  }, query);
+}
+
+/**
+ * Applies the ordering, limit and range to a PostgREST transform builder.
+ * @param {any} query - The PostgREST transform builder.
+ * @param {QueryModifiers} modifiers - The ordering, limit and range to apply.
+ * @returns {any} The modified builder.
+ */
+export function applyQueryModifiers(
+  query: any,
+  modifiers: QueryModifiers
+): any {
+  const { _ } = ecoFlow;
+  const { orderBy, ascending, limit, rangeFrom, rangeTo } = modifiers;
+
+  if (orderBy && !_.isEmpty(orderBy))
+    query = query.order(orderBy, { ascending: ascending !== false });
+
+  if (!_.isNil(rangeFrom) && !_.isNil(rangeTo) && `${rangeTo}` !== "")
+    query = query.range(Number(rangeFrom), Number(rangeTo));
+  else if (!_.isNil(limit) && `${limit}` !== "")
+    query = query.limit(Number(limit));
+
+  return query;
+}
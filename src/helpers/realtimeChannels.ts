@@ -0,0 +1,331 @@
+import { EcoContext } from "@ecoflow/types";
+import {
+  REALTIME_SUBSCRIBE_STATES,
+  RealtimeChannel,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+import isolatedClient from "./isolatedClient";
+
+/**
+ * Builds an unsubscribed channel with its listeners on the given client.
+ */
+type ChannelSetup = (
+  supabase: SupabaseClient<any, "public", any>
+) => RealtimeChannel;
+
+/**
+ * Interface representing a realtime subscription owned by a node.
+ */
+interface RealtimeSubscription {
+  /**
+   * The client configuration ID the subscription belongs to.
+   * @type {string}
+   */
+  clientConfigID: string;
+
+  /**
+   * The client of the configuration the channel was set up with.
+   * @type {SupabaseClient<any, "public", any>}
+   */
+  supabase: SupabaseClient<any, "public", any>;
+
+  /**
+   * The client holding the realtime connection of the channel.
+   * @type {SupabaseClient<any, "public", any>}
+   */
+  connection: SupabaseClient<any, "public", any>;
+
+  /**
+   * Indicates whether the subscription has a connection of its own, which is closed together with the channel.
+   * @type {boolean}
+   */
+  ownConnection: boolean;
+
+  /**
+   * Resolves with true once the channel joined its topic, or with false if joining failed.
+   * @type {Promise<boolean>}
+   */
+  joined: Promise<boolean>;
+
+  /**
+   * The subscribed channel.
+   * @type {RealtimeChannel}
+   */
+  channel: RealtimeChannel;
+
+  /**
+   * Builds the channel again when it has to be resubscribed.
+   * @type {ChannelSetup}
+   */
+  setup: ChannelSetup;
+
+  /**
+   * Number of reconnect attempts since the last successful subscription.
+   * @type {number}
+   */
+  retries: number;
+}
+
+/**
+ * Active subscriptions keyed by the node settings they were created from.
+ */
+const subscriptions = new Map<string, RealtimeSubscription>();
+
+/**
+ * Configuration deployments are picked up after 1 second, once the new client of the configuration is stored.
+ */
+const REBIND_DELAY = 1000;
+
+let rebindTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Looks up the current Supabase client of a configuration without touching any payload.
+ * @param {string} clientConfigID - The client configuration ID.
+ * @returns {SupabaseClient<any, "public", any> | null} The Supabase client or null if it is not available.
+ */
+const currentClient = (
+  clientConfigID: string
+): SupabaseClient<any, "public", any> | null => {
+  const { _, moduleConfigs } = ecoFlow;
+
+  const configManager = moduleConfigs.selectPackage("ecoflow-supabase-auth");
+  if (!configManager || _.isUndefined(configManager)) return null;
+
+  const config = configManager.get(clientConfigID);
+  if (_.isNull(config) || _.isEmpty(config)) return null;
+
+  const supabase = config.configs as SupabaseClient<any, "public", any>;
+  if (_.isNull(supabase) || _.isEmpty(supabase)) return null;
+
+  return supabase;
+};
+
+/**
+ * Removes the subscription stored under the key and closes its channel.
+ * @param {string} key - The subscription key.
+ * @returns None
+ */
+export async function unsubscribeRealtime(key: string): Promise<void> {
+  const subscription = subscriptions.get(key);
+  if (!subscription) return;
+
+  subscriptions.delete(key);
+  if (subscription.ownConnection)
+    await subscription.connection.removeAllChannels();
+  else await subscription.connection.removeChannel(subscription.channel);
+}
+
+/**
+ * Subscribes a channel for a node. An existing subscription with the same key is closed first,
+ * so redeploying a flow or a configuration never leaves a stale channel behind.
+ * Channels that error, time out or close unexpectedly are resubscribed with a growing delay.
+ * Channels of topics other nodes may listen to as well need their own connection, as a client holds only one channel per topic.
+ * @param {string} key - The subscription key.
+ * @param {string} clientConfigID - The client configuration ID.
+ * @param {ChannelSetup} setup - Builds the channel with its listeners on the given client.
+ * @param {boolean} ownConnection - Indicates whether the channel gets a connection of its own. Default is false.
+ * @param {number} retries - Number of reconnect attempts already made.
+ * @returns {Promise<RealtimeChannel | null>} The subscribed channel or null if the client is not available.
+ */
+export async function subscribeRealtime(
+  key: string,
+  clientConfigID: string,
+  setup: ChannelSetup,
+  ownConnection: boolean = false,
+  retries: number = 0
+): Promise<RealtimeChannel | null> {
+  const { log } = ecoFlow;
+
+  await unsubscribeRealtime(key);
+
+  const supabase = currentClient(clientConfigID);
+  if (!supabase) {
+    log.error(`Missing supabase client for realtime channel "${key}".`);
+    return null;
+  }
+
+  const connection = ownConnection ? isolatedClient(supabase) : supabase;
+  if (!connection) {
+    log.error(`Unknown supabase client configuration for "${key}".`);
+    return null;
+  }
+
+  let settleJoined: (joined: boolean) => void = () => {};
+  const channel = setup(connection);
+  const subscription: RealtimeSubscription = {
+    clientConfigID,
+    supabase,
+    connection,
+    ownConnection,
+    joined: new Promise((resolve) => (settleJoined = resolve)),
+    channel,
+    setup,
+    retries,
+  };
+  subscriptions.set(key, subscription);
+
+  /**
+   * Settles the pending join and keeps the latest join state for later callers.
+   * @param {boolean} joined - Indicates whether the channel joined its topic.
+   * @returns None
+   */
+  const setJoined = (joined: boolean) => {
+    settleJoined(joined);
+    subscription.joined = Promise.resolve(joined);
+  };
+
+  channel.subscribe((status, error) => {
+    /**
+     * Ignores status changes of channels which were replaced or removed on purpose.
+     * @returns None
+     */
+    if (subscriptions.get(key) !== subscription) return;
+
+    if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+      setJoined(true);
+      subscription.retries = 0;
+      log.info(`Subscribed to realtime channel "${key}".`);
+      return;
+    }
+
+    setJoined(false);
+    const delay = Math.min(1000 * 2 ** subscription.retries, 30000);
+    log.error(
+      `Realtime channel "${key}" ${status.toLowerCase()}${
+        error ? `: ${error.message}` : ""
+      }. Resubscribing in ${delay / 1000}s.`
+    );
+
+    setTimeout(() => {
+      if (subscriptions.get(key) !== subscription) return;
+      subscribeRealtime(
+        key,
+        clientConfigID,
+        setup,
+        ownConnection,
+        subscription.retries + 1
+      ).catch((err) => log.error(err));
+    }, delay);
+  });
+
+  return channel;
+}
+
+/**
+ * Moves a subscription to the current client of its configuration if the configuration was redeployed.
+ * Subscriptions of removed configurations are closed.
+ * @param {string} key - The subscription key.
+ * @returns None
+ */
+export async function rebindRealtime(key: string): Promise<void> {
+  const subscription = subscriptions.get(key);
+  if (!subscription) return;
+
+  const supabase = currentClient(subscription.clientConfigID);
+  if (supabase === subscription.supabase) return;
+
+  if (!supabase) {
+    await unsubscribeRealtime(key);
+    return;
+  }
+
+  await subscribeRealtime(
+    key,
+    subscription.clientConfigID,
+    subscription.setup,
+    subscription.ownConnection
+  );
+}
+
+/**
+ * Rebinds all subscriptions once a configuration deployment has stored its new client.
+ * @returns None
+ */
+export function scheduleRealtimeRebind(): void {
+  const { log } = ecoFlow;
+
+  if (rebindTimer) clearTimeout(rebindTimer);
+  rebindTimer = setTimeout(() => {
+    rebindTimer = null;
+    Promise.all([...subscriptions.keys()].map(rebindRealtime)).catch((err) =>
+      log.error(err)
+    );
+  }, REBIND_DELAY);
+}
+
+/**
+ * Builds the subscription key of a trigger node. Named triggers are keyed by their name, so several nodes with
+ * the same settings keep a subscription each and a trigger can be stopped by its name. Other triggers are keyed by their settings.
+ * Deploying a node again replaces the subscription stored under its key.
+ * @param {string} clientConfigID - The client configuration ID.
+ * @param {string} name - The trigger name of the node, if any.
+ * @param {string} settingsKey - The key built from the settings of the node.
+ * @returns {string} The subscription key.
+ */
+export function realtimeTriggerKey(
+  clientConfigID: string,
+  name: string | undefined,
+  settingsKey: string
+): string {
+  return name ? `trigger:${clientConfigID}:${name}` : settingsKey;
+}
+
+/**
+ * Creates the event handler of a trigger node. Every event starts a fresh run of the flow with the payload
+ * the node was deployed with, and runs wait for the previous one to finish so they never share a payload.
+ * @param {EcoContext} ctx - The context object of the trigger node.
+ * @returns {(msg: any) => Promise<void>} Starts a run of the flow with the given message.
+ */
+export function realtimeTrigger(ctx: EcoContext): (msg: any) => Promise<void> {
+  const { _, log } = ecoFlow;
+  const { payload, next } = ctx;
+
+  const deployedPayload = _.cloneDeep(_.omit(payload, "msg"));
+  let running: Promise<void> = Promise.resolve();
+
+  return (msg: any) => {
+    running = running
+      .then(async () => {
+        Object.keys(payload).forEach((key) => delete payload[key]);
+        Object.assign(payload, _.cloneDeep(deployedPayload), { msg });
+
+        await next();
+      })
+      .catch((err) => log.error(err));
+
+    return running;
+  };
+}
+
+/**
+ * Retrieves the channel of an active subscription.
+ * @param {string} key - The subscription key.
+ * @returns {RealtimeChannel | null} The channel or null if there is no subscription for the key.
+ */
+export function getRealtimeChannel(key: string): RealtimeChannel | null {
+  return subscriptions.get(key)?.channel || null;
+}
+
+/**
+ * Waits until the channel of a subscription has joined its topic.
+ * @param {string} key - The subscription key.
+ * @param {number} timeout - Maximum time to wait in milliseconds. Default is 10000.
+ * @returns {Promise<boolean>} True if the channel joined in time.
+ */
+export async function joinedRealtime(
+  key: string,
+  timeout: number = 10000
+): Promise<boolean> {
+  const subscription = subscriptions.get(key);
+  if (!subscription) return false;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+  });
+
+  const joined = await Promise.race([subscription.joined, timedOut]);
+  clearTimeout(timer);
+
+  return joined;
+}
@@ -0,0 +1,59 @@
+import { RedirectOptions } from "../interface/RedirectOptions";
+
+/**
+ * Checks if a URL matches an allowlist entry.
+ * Entries without a path allow the whole origin, entries ending with "*" allow every path starting with the entry
+ * and any other entry allows the path itself and the paths below it.
+ * @param {URL} url - The URL to check.
+ * @param {string} entry - The allowlist entry.
+ * @returns {boolean} True if the URL matches the entry.
+ */
+const matchesEntry = (url: URL, entry: string): boolean => {
+  const wildcard = entry.endsWith("*");
+
+  let allowed: URL;
+  try {
+    allowed = new URL(wildcard ? entry.slice(0, -1) : entry);
+  } catch {
+    return false;
+  }
+
+  if (allowed.origin !== url.origin) return false;
+  if (wildcard) return url.pathname.startsWith(allowed.pathname);
+  if (allowed.pathname === "/") return true;
+
+  const path = allowed.pathname.replace(/\/+$/, "");
+  return url.pathname === path || url.pathname.startsWith(`${path}/`);
+};
+
+/**
+ * Resolves a redirect target and checks it against the allowlist of a configuration.
+ * Relative targets are resolved against the base URL. Without an allowlist only the origin of the base URL is allowed.
+ * @param {RedirectOptions | undefined} options - The redirect options of the configuration.
+ * @param {string} target - The redirect target, e.g. the "next" query parameter.
+ * @param {string} base - The URL relative targets are resolved against.
+ * @returns {string | null} The absolute target or null if it is not allowed.
+ */
+export default function allowedRedirect(
+  options: RedirectOptions | undefined,
+  target: string,
+  base: string
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(target, base);
+  } catch {
+    return null;
+  }
+
+  if (!["http:", "https:"].includes(url.protocol)) return null;
+
+  const allowlist =
+    options && options.allowlist.length > 0
+      ? options.allowlist
+      : [new URL(base).origin];
+
+  return allowlist.some((entry) => matchesEntry(url, entry))
+    ? url.toString()
+    : null;
+}
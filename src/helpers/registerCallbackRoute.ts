@@ -0,0 +1,107 @@
+import callbackController from "../controllers/callbackController";
+
+/**
+ * Path of the callback route. The client configuration and the provider (or OTP, recovery...)
+ * are path parameters, so every configuration gets its own callback URLs.
+ */
+const CALLBACK_ROUTE = "/auth/supabase/callback/:clientConfigID/:name";
+
+/**
+ * Path of the callback route of earlier versions, which only carried the provider (or OTP, recovery...).
+ * It stays registered for callback URLs already set up in providers, email templates and redirect allowlists.
+ */
+const LEGACY_CALLBACK_ROUTE = "/auth/supabase/callback/:name";
+
+/**
+ * Builds the default callback URL of a client configuration.
+ * @param {string} client - The client configuration ID.
+ * @param {string} name - The last path segment of the callback route (provider, OTP, recovery...).
+ * @returns {string} The callback URL.
+ */
+export function callbackRouteURL(client: string, name: string): string {
+  const { server } = ecoFlow;
+
+  return `${server.baseUrl}/api/auth/supabase/callback/${encodeURIComponent(
+    client
+  )}/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Checks if a GET route already exists in the API router stack.
+ * @param {string} route - The path of the route.
+ * @returns {boolean} True if the route exists.
+ */
+const routeExists = (route: string): boolean => {
+  const { router } = ecoFlow;
+
+  return (
+    (router.apiRouter.stack as any[]).filter(
+      ({ path, methods }) => path === `/api${route}` && methods.includes("GET")
+    ).length > 0
+  );
+};
+
+/**
+ * Looks up the only deployed client configuration, which legacy callback URLs without a configuration belong to.
+ * @returns {string | undefined} The client configuration ID or undefined if there is none or more than one.
+ */
+const singleClientConfigID = (): string | undefined => {
+  const { moduleConfigs } = ecoFlow;
+
+  const configManager = moduleConfigs.selectPackage("ecoflow-supabase-auth");
+  if (!configManager) return undefined;
+
+  const clientConfigIDs: string[] = [...configManager.allConfigs.keys()];
+  return clientConfigIDs.length === 1 ? clientConfigIDs[0] : undefined;
+};
+
+/**
+ * Creates the "/auth/supabase/callback/[clientConfigID]/[name]" route in the API router if it does not exist yet.
+ * The client is looked up on every request, so changed or deleted configurations are never served by a stale client.
+ * The legacy "/auth/supabase/callback/[name]" route is kept as an alias. It serves the configuration of the
+ * "clientConfigID" query parameter, or the only deployed configuration, and explains the new URL otherwise.
+ * @returns None
+ */
+export default function registerCallbackRoute(): void {
+  const { log, router } = ecoFlow;
+
+  if (!routeExists(CALLBACK_ROUTE)) {
+    log.info(`Creating callback URL: "${CALLBACK_ROUTE}"`);
+
+    router.apiRouter.get(
+      CALLBACK_ROUTE,
+      async (ctx, next) => {
+        ctx.query.clientConfigID = ctx.params.clientConfigID;
+        ctx.query.provider = ctx.params.name;
+        await next();
+      },
+      callbackController
+    );
+  }
+
+  if (!routeExists(LEGACY_CALLBACK_ROUTE)) {
+    log.info(`Creating callback URL: "${LEGACY_CALLBACK_ROUTE}"`);
+
+    router.apiRouter.get(
+      LEGACY_CALLBACK_ROUTE,
+      async (ctx, next) => {
+        const clientConfigID =
+          ctx.query.clientConfigID || singleClientConfigID();
+
+        if (!clientConfigID) {
+          ctx.status = 400;
+          ctx.body = {
+            error: true,
+            message: `Callback URLs without a client configuration are only supported while a single configuration is deployed. Use "/api/auth/supabase/callback/<clientConfigID>/${ctx.params.name}" instead.`,
+          };
+          return;
+        }
+
+        ctx.query.clientConfigID = clientConfigID;
+        ctx.query.provider = ctx.params.name;
+        await next();
+      },
+      callbackController
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Time of the last remote check of every session, keyed by the session ID.
+ */
+const remoteChecks = new Map<string, number>();
+
+/**
+ * Checks if a locally verified session has to be checked against the Auth server again.
+ * @param {string} key - The session ID (or the token for tokens without a session ID).
+ * @param {number} interval - The re-check interval in milliseconds.
+ * @returns {boolean} True if the last remote check is older than the interval.
+ */
+export function remoteRecheckDue(key: string, interval: number): boolean {
+  const checkedAt = remoteChecks.get(key);
+  return !checkedAt || Date.now() - checkedAt >= interval;
+}
+
+/**
+ * Records a successful remote check of a session. Checks older than the interval are dropped.
+ * @param {string} key - The session ID (or the token for tokens without a session ID).
+ * @param {number} interval - The re-check interval in milliseconds.
+ * @returns None
+ */
+export function markRemoteChecked(key: string, interval: number): void {
+  const now = Date.now();
+
+  remoteChecks.forEach((checkedAt, session) => {
+    if (now - checkedAt >= interval) remoteChecks.delete(session);
+  });
+
+  remoteChecks.set(key, now);
+}
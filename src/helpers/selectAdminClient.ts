@@ -0,0 +1,33 @@
+import { EcoContext } from "@ecoflow/types";
+import { SupabaseClient } from "@supabase/supabase-js";
+import selectSupabaseClient from "./selectSupabaseClient";
+import { getClientSettings } from "./clientSettings";
+
+/**
+ * Looks up the Supabase client of the selected configuration for admin operations.
+ * Admin operations are refused with 403 unless the client was built with a service-role key.
+ * @param {EcoContext} ctx - The context object containing the payload.
+ * @param {string} client - The client configuration ID selected in the node inputs.
+ * @returns {SupabaseClient<any, "public", any> | null} The Supabase client or null if it can not be used for admin operations.
+ */
+export default function selectAdminClient(
+  ctx: EcoContext,
+  client: string
+): SupabaseClient<any, "public", any> | null {
+  const { payload } = ctx;
+
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return null;
+
+  if (!getClientSettings(supabase)?.serviceRole) {
+    ctx.status = 403;
+    payload.msg = {
+      error: true,
+      message:
+        "Admin operations require a configuration built with a service-role key.",
+    };
+    return null;
+  }
+
+  return supabase;
+}
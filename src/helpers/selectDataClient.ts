@@ -0,0 +1,47 @@
+import { EcoContext } from "@ecoflow/types";
+import { SupabaseClient } from "@supabase/supabase-js";
+import selectSupabaseClient from "./selectSupabaseClient";
+import isolatedClient from "./isolatedClient";
+
+/**
+ * Stateless clients for database, storage and function requests, keyed by the client of the configuration
+ * so they are released together with it when a configuration is replaced.
+ */
+const dataClients = new WeakMap<
+  SupabaseClient<any, "public", any>,
+  SupabaseClient<any, "public", any>
+>();
+
+/**
+ * Looks up a stateless client of the selected configuration for database, storage and function requests.
+ * The client never signs in, so requests always carry the API key of the configuration and never the session
+ * of a user signed in on the shared client.
+ * @param {EcoContext} ctx - The context object containing the payload.
+ * @param {string} client - The client configuration ID selected in the node inputs.
+ * @returns {SupabaseClient<any, "public", any> | null} The stateless client or null if it is not available.
+ */
+export default function selectDataClient(
+  ctx: EcoContext,
+  client: string
+): SupabaseClient<any, "public", any> | null {
+  const { payload } = ctx;
+
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return null;
+
+  const cached = dataClients.get(supabase);
+  if (cached) return cached;
+
+  const dataClient = isolatedClient(supabase);
+  if (!dataClient) {
+    ctx.status = 500;
+    payload.msg = {
+      error: true,
+      message: "Unknown supabase client configuration.",
+    };
+    return null;
+  }
+
+  dataClients.set(supabase, dataClient);
+  return dataClient;
+}
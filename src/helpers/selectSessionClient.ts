@@ -0,0 +1,100 @@
+import { EcoContext } from "@ecoflow/types";
+import { Session, SupabaseClient } from "@supabase/supabase-js";
+import selectSupabaseClient from "./selectSupabaseClient";
+import getBearerToken from "./getBearerToken";
+import sessionClient from "./sessionClient";
+import {
+  csrfRejected,
+  readChunkedCookie,
+  sessionCookieOptions,
+  setSessionCookies,
+} from "./sessionCookies";
+
+/**
+ * Sessions refreshed while restoring a user session without cookie session mode, keyed by the request context.
+ */
+const refreshedSessions = new WeakMap<EcoContext, Session>();
+
+/**
+ * Retrieves the tokens of the session refreshed while restoring the user session of a request.
+ * Spread into the response payload, so the user keeps a valid refresh token after the rotation.
+ * @param {EcoContext} ctx - The context object of the request.
+ * @returns The access and refresh token, or an empty object if the session was not refreshed.
+ */
+export function refreshedSessionTokens(ctx: EcoContext): {
+  accessToken?: string;
+  refreshToken?: string;
+} {
+  const session = refreshedSessions.get(ctx);
+  return session
+    ? { accessToken: session.access_token, refreshToken: session.refresh_token }
+    : {};
+}
+
+/**
+ * Looks up the Supabase client of the selected configuration and signs an isolated copy of it in with the user session.
+ * The session tokens are read from the tokenFrom, tokenKey, refreshToken and passByPayload node inputs.
+ * In cookie session mode the refresh token falls back to the refresh token cookie, and cookie sessions need a CSRF token.
+ * The payload holds the error message and the status is set to 401 if the session can not be restored.
+ * A session refreshed on the way is written back to the cookies in cookie session mode, otherwise its tokens
+ * are available through refreshedSessionTokens.
+ * @param {EcoContext} ctx - The context object containing the payload and the node inputs.
+ * @param {string} client - The client configuration ID selected in the node inputs.
+ * @returns {Promise<SupabaseClient<any, "public", any> | null>} The signed in client or null if the session can not be restored.
+ */
+export default async function selectSessionClient(
+  ctx: EcoContext,
+  client: string
+): Promise<SupabaseClient<any, "public", any> | null> {
+  const { _ } = ecoFlow;
+  const { payload, inputs } = ctx;
+  const { tokenFrom, tokenKey, refreshToken, passByPayload } = inputs || {};
+
+  const supabase = selectSupabaseClient(payload, client);
+  if (!supabase) return null;
+
+  const cookieOptions = sessionCookieOptions(supabase);
+  const accessToken = getBearerToken(ctx, supabase, tokenFrom, tokenKey);
+  const userRefreshToken =
+    (passByPayload ? _.get(payload, refreshToken) : refreshToken) ||
+    (cookieOptions
+      ? readChunkedCookie(ctx, `${cookieOptions.prefix}-refresh-token`)
+      : undefined);
+
+  if (!accessToken || !userRefreshToken) {
+    ctx.status = 401;
+    payload.msg = {
+      error: true,
+      message: "Missing or invalid session tokens.",
+      status: {
+        accessToken: _.isUndefined(accessToken),
+        refreshToken: _.isUndefined(userRefreshToken),
+      },
+    };
+    return null;
+  }
+
+  if (tokenFrom === "cookie" && csrfRejected(ctx, supabase)) return null;
+
+  const {
+    client: userClient,
+    session,
+    error,
+  } = await sessionClient(supabase, accessToken, userRefreshToken);
+  if (error || !userClient) {
+    ctx.status = 401;
+    payload.msg = {
+      error: true,
+      message: error?.message || "Failed to restore the session.",
+      rawError: error,
+    };
+    return null;
+  }
+
+  if (session && session.refresh_token !== userRefreshToken) {
+    if (cookieOptions) setSessionCookies(ctx, supabase, session, true);
+    else refreshedSessions.set(ctx, session);
+  }
+
+  return userClient;
+}
@@ -0,0 +1,61 @@
+import { EcoContext } from "@ecoflow/types";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Looks up the Supabase client built by the selected configuration node.
+ * When the lookup fails, an error message is set in the payload and null is returned.
+ * @param {EcoContext["payload"]} payload - The payload object to set the error message in.
+ * @param {string} client - The client configuration ID selected in the node inputs.
+ * @returns {SupabaseClient<any, "public", any> | null} The Supabase client or null if it is not available.
+ */
+export default function selectSupabaseClient(
+  payload: EcoContext["payload"],
+  client: string
+): SupabaseClient<any, "public", any> | null {
+  const { _, moduleConfigs } = ecoFlow;
+
+  /**
+   * Selects the configuration manager for the "ecoflow-supabase-auth" package and checks if it exists.
+   * If the configuration manager does not exist, it sets an error message in the payload object.
+   * @returns None
+   */
+  const configManager = moduleConfigs.selectPackage("ecoflow-supabase-auth");
+  if (!configManager || _.isUndefined(configManager)) {
+    payload.msg = {
+      error: true,
+      message: "Missing configs manager for ecoflow-supabase package",
+    };
+    return null;
+  }
+
+  /**
+   * Retrieves the configuration for the client using the configManager.
+   * If the configuration is null or empty, it sets an error message in the payload.
+   * @param {Client} client - The client for which the configuration is retrieved.
+   * @returns None
+   */
+  const config = configManager.get(client);
+  if (_.isNull(config) || _.isEmpty(config)) {
+    payload.msg = {
+      error: true,
+      message: "Missing config for ecoflow-supabase package",
+    };
+    return null;
+  }
+
+  /**
+   * Checks if the Supabase client is provided in the configuration and handles the case where it is missing.
+   * @param {object} config - The configuration object containing the Supabase client.
+   * @returns None
+   */
+  const supabase = config.configs as SupabaseClient<any, "public", any>;
+  if (_.isNull(supabase) || _.isEmpty(supabase)) {
+    payload.msg = {
+      error: true,
+      message: "Missing supabase client",
+    };
+    return null;
+  }
+
+  return supabase;
+}
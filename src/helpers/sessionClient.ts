@@ -0,0 +1,39 @@
+import { AuthError, Session, SupabaseClient } from "@supabase/supabase-js";
+import isolatedClient from "./isolatedClient";
+
+/**
+ * Creates an isolated Supabase client signed in with the given user session.
+ * The shared client of a configuration is never used for user sessions, so concurrent
+ * requests of different users cannot overwrite each other's session.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {string} accessToken - The access token of the user.
+ * @param {string} refreshToken - The refresh token of the user.
+ * Expired access tokens are refreshed, which rotates the refresh token, so the returned session has to be handed back to the user.
+ * @returns An object containing the signed in client, its session and any potential errors.
+ */
+export default async function sessionClient(
+  supabase: SupabaseClient<any, "public", any>,
+  accessToken: string,
+  refreshToken: string
+): Promise<{
+  client: SupabaseClient<any, "public", any> | null;
+  session: Session | null;
+  error: AuthError | Error | null;
+}> {
+  const client = isolatedClient(supabase);
+  if (!client)
+    return {
+      client: null,
+      session: null,
+      error: new Error("Unknown supabase client configuration."),
+    };
+
+  const { data, error } = await client.auth.setSession({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+
+  if (error) return { client: null, session: null, error };
+
+  return { client, session: data.session, error: null };
+}
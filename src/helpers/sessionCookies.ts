@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import { EcoContext } from "@ecoflow/types";
+import { Session, SupabaseClient } from "@supabase/supabase-js";
+import { getClientSettings } from "./clientSettings";
+import { SessionCookieOptions } from "../interface/SessionCookieOptions";
+
+/**
+ * Browsers drop cookies larger than 4096 bytes, so longer values are split into numbered chunks.
+ */
+const CHUNK_SIZE = 3180;
+
+/**
+ * Session cookies live as long as browsers allow, the tokens inside expire on their own.
+ */
+const MAX_AGE = 400 * 24 * 60 * 60 * 1000;
+
+/**
+ * Requests which do not change state and are therefore not checked for a CSRF token.
+ */
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Response fields holding the tokens of a session, which stay in the HttpOnly cookies in cookie session mode.
+ */
+const SESSION_TOKEN_FIELDS = [
+  "session",
+  "accessToken",
+  "refreshToken",
+  "providerToken",
+  "providerRefreshToken",
+];
+
+/**
+ * Retrieves the cookie session options of a client.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @returns {SessionCookieOptions | undefined} The options or undefined if the cookie mode is disabled.
+ */
+export function sessionCookieOptions(
+  supabase: SupabaseClient<any, "public", any>
+): SessionCookieOptions | undefined {
+  return getClientSettings(supabase)?.sessionCookies;
+}
+
+/**
+ * Reads a cookie which may have been split into chunks ("name.0", "name.1", ...).
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {string} name - The name of the cookie.
+ * @returns {string | undefined} The value or undefined if the cookie is not set.
+ */
+export function readChunkedCookie(
+  ctx: EcoContext,
+  name: string
+): string | undefined {
+  const value = ctx.cookies.get(name);
+  if (value) return value;
+
+  let chunks = "";
+  for (let index = 0; ; index++) {
+    const chunk = ctx.cookies.get(`${name}.${index}`);
+    if (!chunk) break;
+    chunks += chunk;
+  }
+
+  return chunks || undefined;
+}
+
+/**
+ * Writes a cookie, splitting it into chunks if it is too large. Stale chunks of a previous value are removed.
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {string} name - The name of the cookie.
+ * @param {string | null} value - The value, or null to remove the cookie.
+ * @param {object} options - The cookie attributes.
+ * @returns None
+ */
+const writeChunkedCookie = (
+  ctx: EcoContext,
+  name: string,
+  value: string | null,
+  options: Record<string, any>
+): void => {
+  const chunks =
+    value && value.length > CHUNK_SIZE
+      ? (value.match(new RegExp(`.{1,${CHUNK_SIZE}}`, "g")) as string[])
+      : [];
+
+  ctx.cookies.set(name, chunks.length === 0 ? value : null, options);
+  chunks.forEach((chunk, index) =>
+    ctx.cookies.set(`${name}.${index}`, chunk, options)
+  );
+
+  for (let index = chunks.length; ctx.cookies.get(`${name}.${index}`); index++)
+    ctx.cookies.set(`${name}.${index}`, null, options);
+};
+
+/**
+ * Builds the cookie attributes of the cookie session mode.
+ * Secure cookies are also written when TLS is terminated by a proxy in front of the server.
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {SessionCookieOptions} options - The cookie session options.
+ * @param {boolean} httpOnly - Whether the cookie is hidden from scripts.
+ * @returns {object} The cookie attributes.
+ */
+const cookieAttributes = (
+  ctx: EcoContext,
+  options: SessionCookieOptions,
+  httpOnly: boolean
+): Record<string, any> => {
+  if (options.secure) ctx.cookies.secure = true;
+
+  return {
+    httpOnly,
+    secure: options.secure,
+    sameSite: options.sameSite,
+    path: "/",
+    maxAge: MAX_AGE,
+    overwrite: true,
+    ...(options.domain ? { domain: options.domain } : {}),
+  };
+};
+
+/**
+ * Stores the session in HttpOnly access and refresh token cookies and issues a new CSRF token,
+ * if the cookie mode of the configuration is enabled.
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @param {Pick<Session, "access_token" | "refresh_token"> | null | undefined} session - The session to store.
+ * @param {boolean} keepCsrfToken - Whether the CSRF token of the request is kept, e.g. when a session was refreshed. Default is false.
+ * @returns {string | null} The CSRF token or null if no cookies were set.
+ */
+export function setSessionCookies(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>,
+  session: Pick<Session, "access_token" | "refresh_token"> | null | undefined,
+  keepCsrfToken: boolean = false
+): string | null {
+  const options = sessionCookieOptions(supabase);
+  if (!options || !session) return null;
+
+  const attributes = cookieAttributes(ctx, options, true);
+  writeChunkedCookie(
+    ctx,
+    `${options.prefix}-access-token`,
+    session.access_token,
+    attributes
+  );
+  writeChunkedCookie(
+    ctx,
+    `${options.prefix}-refresh-token`,
+    session.refresh_token,
+    attributes
+  );
+
+  const currentCsrfToken = keepCsrfToken
+    ? ctx.cookies.get(`${options.prefix}-csrf-token`)
+    : undefined;
+  if (currentCsrfToken) return currentCsrfToken;
+
+  const csrfToken = crypto.randomBytes(32).toString("base64url");
+  ctx.cookies.set(
+    `${options.prefix}-csrf-token`,
+    csrfToken,
+    cookieAttributes(ctx, options, false)
+  );
+
+  return csrfToken;
+}
+
+/**
+ * Removes the session tokens from a response if the session was stored in cookies, and adds the CSRF token instead.
+ * @param {Record<string, any>} msg - The response holding the session and its tokens.
+ * @param {string | null} csrfToken - The CSRF token returned when the session cookies were set.
+ * @returns {Record<string, any>} The response without session tokens in cookie session mode, otherwise the response as is.
+ */
+export function stripSessionTokens(
+  msg: Record<string, any>,
+  csrfToken: string | null
+): Record<string, any> {
+  const { _ } = ecoFlow;
+
+  return csrfToken ? { ..._.omit(msg, SESSION_TOKEN_FIELDS), csrfToken } : msg;
+}
+
+/**
+ * Removes the session and CSRF cookies, if the cookie mode of the configuration is enabled.
+ * @param {EcoContext} ctx - The context object containing the cookies.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @returns None
+ */
+export function clearSessionCookies(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>
+): void {
+  const options = sessionCookieOptions(supabase);
+  if (!options) return;
+
+  const attributes = cookieAttributes(ctx, options, true);
+  writeChunkedCookie(ctx, `${options.prefix}-access-token`, null, attributes);
+  writeChunkedCookie(ctx, `${options.prefix}-refresh-token`, null, attributes);
+  ctx.cookies.set(`${options.prefix}-csrf-token`, null, {
+    ...attributes,
+    httpOnly: false,
+  });
+}
+
+/**
+ * Checks the CSRF double-submit token of state-changing requests.
+ * The token of the "x-csrf-token" header has to match the CSRF cookie.
+ * @param {EcoContext} ctx - The context object containing the request and the cookies.
+ * @param {SessionCookieOptions} options - The cookie session options.
+ * @returns {boolean} True if the request is safe or carries a matching token.
+ */
+export function verifyCsrfToken(
+  ctx: EcoContext,
+  options: SessionCookieOptions
+): boolean {
+  const { request } = ctx;
+  if (SAFE_METHODS.includes(request.method.toUpperCase())) return true;
+
+  const cookieToken = ctx.cookies.get(`${options.prefix}-csrf-token`);
+  const headerToken = request.headers["x-csrf-token"];
+  if (!cookieToken || typeof headerToken !== "string") return false;
+
+  const expected = Buffer.from(cookieToken);
+  const received = Buffer.from(headerToken);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Rejects state-changing requests without a matching CSRF token with 403,
+ * if the cookie session mode of the configuration is enabled.
+ * @param {EcoContext} ctx - The context object containing the request, the cookies and the payload.
+ * @param {SupabaseClient<any, "public", any>} supabase - The Supabase client of the selected configuration.
+ * @returns {boolean} True if the request was rejected.
+ */
+export function csrfRejected(
+  ctx: EcoContext,
+  supabase: SupabaseClient<any, "public", any>
+): boolean {
+  const options = sessionCookieOptions(supabase);
+  if (!options || verifyCsrfToken(ctx, options)) return false;
+
+  ctx.status = 403;
+  ctx.payload.msg = {
+    error: true,
+    csrf: false,
+    message: "Missing or invalid CSRF token.",
+  };
+  return true;
+}
@@ -0,0 +1,10 @@
+/**
+ * Converts a Supabase Storage error into an HTTP status code.
+ * API errors carry the HTTP status of the Storage API, other errors (network, parsing) are answered with 500.
+ * @param {any} error - The Storage error.
+ * @returns {number} The HTTP status code for the error.
+ */
+export default function storageErrorStatus(error: any): number {
+  const status = Number(error?.status || error?.statusCode);
+  return status >= 400 && status < 600 ? status : 500;
+}
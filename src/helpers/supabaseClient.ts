@@ -1,14 +1,34 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { setClientSettings } from "./clientSettings";
+import decodeJwtClaims from "./decodeJwtClaims";
+import { SupabaseClientSettings } from "../interface/SupabaseClientSettings";
+
+/**
+ * Checks if the API key is a service-role key.
+ * Secret keys are prefixed with "sb_secret_", legacy keys are JWTs carrying a "service_role" role claim.
+ * @param {string} apiKey - The API key for the Supabase project.
+ * @returns {boolean} True if the API key is a service-role key.
+ */
+const isServiceRoleKey = (apiKey: string): boolean => {
+  if (apiKey.startsWith("sb_secret_")) return true;
+
+  return decodeJwtClaims(apiKey)?.role === "service_role";
+};
 
 /**
  * Creates a Supabase client with the provided project URL and API key.
  * @param {string} projectURL - The URL of the Supabase project.
  * @param {string} apiKey - The API key for the Supabase project.
+ * @param {object} options - The JWT secret used to verify access tokens locally, the cookie session, PKCE flow and redirect options.
  * @returns {SupabaseClient<any, "public", any>} A Supabase client instance.
  */
 export default function supabaseClient(
   projectURL: string,
-  apiKey: string
+  apiKey: string,
+  options: Pick<
+    SupabaseClientSettings,
+    "jwtSecret" | "sessionCookies" | "pkceFlowParam" | "redirects"
+  > = {}
 ): SupabaseClient<any, "public", any> {
   /**
    * Creates a client with the given project URL, API key, and authentication configuration.
@@ -19,9 +39,23 @@ export default function supabaseClient(
    * @param {string} options.auth.flowType - The flow type for authentication (e.g., "pkce").
    * @returns The created client.
    */
-  return createClient(projectURL, apiKey, {
+  const supabase = createClient(projectURL, apiKey, {
     auth: {
       flowType: "pkce",
     },
   });
+
+  /**
+   * Keeps the project URL and API key of the client so per-user clients can be derived from it,
+   * the JWT secret so access tokens can be verified locally, and the cookie session, PKCE flow and redirect options.
+   * @returns None
+   */
+  setClientSettings(supabase, {
+    projectURL,
+    apiKey,
+    serviceRole: isServiceRoleKey(apiKey),
+    ...options,
+  });
+
+  return supabase;
 }
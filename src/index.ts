@@ -1,5 +1,6 @@
 import { ModuleManifest, ModuleSpecsInputsTypeOptions } from "@ecoflow/types";
 import { SupabaseClient } from "@supabase/supabase-js";
+import { OAUTH_PROVIDERS, cachedAuthProviders } from "./helpers/authProviders";
 
 /**
  * Generates a module manifest for the Supabase OAuth module.
@@ -26,6 +27,62 @@ export default function functionManifest(): ModuleManifest {
     return result;
   };
 
+  /**
+   * Lists the OAuth providers enabled in the auth settings of the client configuration selected in the node.
+   * Without a selected client, or if EcoFlow calls the picker without the node inputs, the providers of all
+   * deployed configurations are listed, and providers enabled in only some of them are labeled with those configurations.
+   * Falls back to the list of OAuth providers of Supabase Auth if no auth settings could be read.
+   * @param {Record<string, any>} inputs - The current inputs of the node holding the selected client.
+   * @returns {ModuleSpecsInputsTypeOptions[]} The provider options.
+   */
+  const selectOauthProvider = (
+    inputs?: Record<string, any>
+  ): ModuleSpecsInputsTypeOptions[] => {
+    const selected =
+      configManager && inputs?.client ? configManager.get(inputs.client) : null;
+    if (selected?.configs)
+      return (cachedAuthProviders(selected.configs) || OAUTH_PROVIDERS).map(
+        (provider) => ({ label: provider, value: provider })
+      );
+
+    const configLabels = new Map<string, string[]>();
+    let loadedConfigs = 0;
+
+    if (configManager)
+      for (const [
+        key,
+        { label, configs },
+      ] of configManager.allConfigs.entries()) {
+        const providers = configs ? cachedAuthProviders(configs) : null;
+        if (!providers) continue;
+
+        loadedConfigs++;
+        providers.forEach((provider) =>
+          configLabels.set(provider, [
+            ...(configLabels.get(provider) || []),
+            label || key,
+          ])
+        );
+      }
+
+    if (loadedConfigs === 0)
+      return OAUTH_PROVIDERS.map((provider) => ({
+        label: provider,
+        value: provider,
+      }));
+
+    return [...configLabels.keys()].sort().map((provider) => {
+      const labels = configLabels.get(provider) || [];
+      return {
+        label:
+          labels.length < loadedConfigs
+            ? `${provider} (${labels.join(", ")})`
+            : provider,
+        value: provider,
+      };
+    });
+  };
+
   return {
     name: "Supabase",
     specs: [
@@ -54,6 +111,85 @@ export default function functionManifest(): ModuleManifest {
             required: false,
             hint: 'For environment variables provide EcoFlow prefix in Api Key. example:"ECOFLOW_USER_"',
           },
+          {
+            name: "jwtSecret",
+            type: "HiddenString",
+            label: "JWT Secret",
+            required: false,
+            hint: "Only needed to verify HS256 access tokens locally. Asymmetric keys are read from the project JWKS.",
+          },
+          {
+            name: "jwtSecretFromEnv",
+            type: "Checkbox",
+            label: "JWT secret from environment variable.",
+            required: false,
+            hint: 'For environment variables provide EcoFlow prefix in JWT Secret. example:"ECOFLOW_USER_"',
+          },
+          {
+            name: "cookieSession",
+            type: "Checkbox",
+            label: "Cookie session mode",
+            required: false,
+            hint: "Store sessions in HttpOnly cookies and check a CSRF token on state-changing requests.",
+          },
+          {
+            name: "cookiePrefix",
+            type: "String",
+            label: "Cookie prefix",
+            required: false,
+            defaultValue: "sb",
+            hint: "Cookies are named <prefix>-access-token, <prefix>-refresh-token and <prefix>-csrf-token.",
+          },
+          {
+            name: "cookieSameSite",
+            type: "SelectPicker",
+            label: "Cookie SameSite",
+            required: false,
+            defaultValue: "lax",
+            pickerOptions: ["lax", "strict", "none"],
+          },
+          {
+            name: "cookieSecure",
+            type: "Checkbox",
+            label: "Secure cookies",
+            required: false,
+            defaultValue: true,
+            hint: "Only send the cookies over HTTPS.",
+          },
+          {
+            name: "cookieDomain",
+            type: "String",
+            label: "Cookie domain",
+            required: false,
+          },
+          {
+            name: "pkceFlowParam",
+            type: "Checkbox",
+            label: "PKCE flow ID in redirect URL",
+            required: false,
+            hint: "Lets logins finish without the flow cookie, e.g. email links opened in another browser. The redirect URLs in Supabase must allow query parameters.",
+          },
+          {
+            name: "successURL",
+            type: "String",
+            label: "Login success URL",
+            required: false,
+            hint: "The callback redirects here after a login, unless an allowed 'next' URL is given. Without success and failure URLs the callback answers with JSON. Relative URLs are resolved against the EcoFlow server URL.",
+          },
+          {
+            name: "failureURL",
+            type: "String",
+            label: "Login failure URL",
+            required: false,
+            hint: "The callback redirects here with 'error' and 'error_description' query parameters if a login fails. Relative URLs are resolved against the EcoFlow server URL.",
+          },
+          {
+            name: "redirectAllowlist",
+            type: "String",
+            label: "Redirect allowlist",
+            required: false,
+            hint: "Comma separated origins or paths 'next' may redirect to, e.g. https://app.example.com, https://example.com/account/*. Default is the origin of the success URL.",
+          },
         ],
         description: "Supabase configuration",
         controller: "ConfigurationController",
@@ -135,42 +271,80 @@ export default function functionManifest(): ModuleManifest {
             type: "SelectPicker",
             label: "Provider",
             required: true,
-            pickerOptions: [
-              "apple",
-              "azure",
-              "bitbucket",
-              "discord",
-              "facebook",
-              "figma",
-              "github",
-              "gitlab",
-              "google",
-              "kakao",
-              "keycloak",
-              "linkedin",
-              "linkedin_oidc",
-              "notion",
-              "slack",
-              "slack_oidc",
-              "spotify",
-              "twitch",
-              "twitter",
-              "workos",
-              "zoom",
-              "fly",
-            ],
+            pickerOptions: selectOauthProvider,
+            hint: "Providers enabled in the auth settings of the deployed client configurations.",
           },
           {
             name: "callbackURL",
             type: "String",
             label: "Callback URL",
             required: false,
-            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /[provider]`,
+            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /[client config] /[provider]`,
+          },
+          {
+            name: "scopes",
+            type: "String",
+            label: "Scopes",
+            required: false,
+            hint: "Additional provider scopes, separated by spaces or commas. Example: https://www.googleapis.com/auth/drive.readonly or repo",
+          },
+          {
+            name: "queryParams",
+            type: "Code",
+            label: "Query params",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: 'Additional query parameters of the provider authorization URL. Example: {"access_type": "offline", "prompt": "consent"}',
+          },
+          {
+            name: "skipBrowserRedirect",
+            type: "Checkbox",
+            label: "Skip browser redirect",
+            required: false,
+            defaultValue: true,
+            hint: "Only return the authentication URL. Uncheck to redirect the browser to the provider.",
           },
         ],
         controller: "OauthController",
       },
 
+      {
+        name: "Exchange Code",
+        type: "Middleware",
+        description:
+          "Exchange the auth code of an OAuth or magic-link login for a session",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "codeFrom",
+            label: "Code from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "query",
+            pickerOptions: [
+              { label: "Query string", value: "query" },
+              { label: "Payload", value: "payload" },
+              { label: "Route parameter", value: "param" },
+            ],
+          },
+          {
+            name: "codeKey",
+            label: "Code key",
+            type: "String",
+            required: false,
+            hint: "Query parameter, payload key or route parameter holding the code. Default: code for query and route parameter, msg.code for payload.",
+          },
+        ],
+        controller: "ExchangeCode",
+      },
+
       {
         name: "SignIn with Password",
         type: "Middleware",
@@ -221,10 +395,51 @@ export default function functionManifest(): ModuleManifest {
         controller: "SignInWithPassword",
       },
 
+      {
+        name: "SignIn Anonymously",
+        type: "Middleware",
+        description: "Supabase SignIn as an anonymous user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "uData",
+            type: "Code",
+            label: "User data",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: "Metadata attached to the anonymous user.",
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch user data from payload body. The captcha token is always read from the payload.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "SignInAnonymously",
+      },
+
       {
         name: "SignIn with OTP",
         type: "Middleware",
-        description: "Supabase SignIn with OTP\n Note:Still under development.",
+        description:
+          "Supabase SignIn with OTP\n Note:Use the Verify OTP node to check the code sent to the user.",
         inputs: [
           {
             name: "client",
@@ -245,12 +460,39 @@ export default function functionManifest(): ModuleManifest {
             label: "Phone",
             required: false,
           },
+          {
+            name: "channel",
+            type: "SelectPicker",
+            label: "SMS channel",
+            required: false,
+            defaultValue: "sms",
+            hint: "Channel used to send the OTP to a phone number.",
+            pickerOptions: ["sms", "whatsapp"],
+          },
+          {
+            name: "shouldCreateUser",
+            type: "Checkbox",
+            label: "Create user",
+            hint: "Create a new user if the email/phone is not registered yet.",
+            defaultValue: true,
+            required: false,
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User data",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: "Metadata attached to the user when it is created on first sign in.",
+          },
 
           {
             name: "fromPayload",
             type: "Checkbox",
             label: "From payload",
-            hint: "Fetch Email/Phone and password from payload body.",
+            hint: "Fetch Email/Phone and user data from payload body.",
             required: false,
           },
           {
@@ -266,12 +508,87 @@ export default function functionManifest(): ModuleManifest {
             type: "String",
             label: "Callback URL",
             required: false,
-            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /OTP`,
+            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /[client config] /OTP`,
           },
         ],
         controller: "SignInWithOTP",
       },
 
+      {
+        name: "Verify OTP",
+        type: "Middleware",
+        description:
+          "Verifies the OTP or token hash sent by Supabase SignIn with OTP",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "type",
+            label: "Verification type",
+            type: "SelectPicker",
+            required: false,
+            hint: "Default is 'sms' when a phone is provided, otherwise 'email'.",
+            pickerOptions: [
+              "sms",
+              "email",
+              "magiclink",
+              "signup",
+              "invite",
+              "recovery",
+              "email_change",
+              "phone_change",
+            ],
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            required: false,
+          },
+          {
+            name: "token",
+            type: "HiddenString",
+            label: "Token",
+            required: false,
+          },
+          {
+            name: "tokenHash",
+            type: "String",
+            label: "Token hash",
+            required: false,
+            hint: "Token hash from an email link. Used instead of the email/phone and token.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email/Phone, token, token_hash and type from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "VerifyOTP",
+      },
+
       {
         name: "Oauth isAuthenticated",
         type: "Middleware",
@@ -284,10 +601,105 @@ export default function functionManifest(): ModuleManifest {
             required: true,
             pickerOptions: selectClientConfig,
           },
+          {
+            name: "requiredAAL",
+            label: "Required assurance level",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "aal1",
+            pickerOptions: [
+              { label: "Any session (aal1)", value: "aal1" },
+              { label: "Multi-factor session (aal2)", value: "aal2" },
+            ],
+          },
+          {
+            name: "verification",
+            label: "Verification",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "remote",
+            pickerOptions: [
+              { label: "Remote (Supabase Auth)", value: "remote" },
+              { label: "Local", value: "local" },
+              { label: "Local with periodic remote re-check", value: "hybrid" },
+            ],
+            hint: "Local verification uses the JWT secret of the configuration or the project JWKS.",
+          },
+          {
+            name: "recheckInterval",
+            label: "Re-check interval (seconds)",
+            type: "Number",
+            required: false,
+            defaultValue: 300,
+            hint: "How often a locally verified session is checked against Supabase Auth.",
+          },
         ],
         controller: "OauthIsAuthenticated",
       },
 
+      {
+        name: "Authorize",
+        type: "Middleware",
+        description:
+          "Checks roles, claims and sign-in details of the user authenticated by Oauth isAuthenticated",
+        inputs: [
+          {
+            name: "rules",
+            type: "Code",
+            label: "Rules",
+            codeLanguage: "json",
+            required: true,
+            defaultValue:
+              '[\n  {\n    "name": "admin",\n    "roles": ["admin"],\n    "emailConfirmed": true\n  }\n]',
+            hint: "Every rule has to pass. Rule properties: name, roles, claims, emailConfirmed, phoneConfirmed, amr, providers.",
+          },
+          {
+            name: "userKey",
+            type: "String",
+            label: "User key",
+            hint: "Payload key holding the user. Default is 'msg.user'",
+            defaultValue: "msg.user",
+            required: false,
+          },
+          {
+            name: "claimsKey",
+            type: "String",
+            label: "Claims key",
+            hint: "Payload key holding the verified claims. Default is 'msg.claims'",
+            defaultValue: "msg.claims",
+            required: false,
+          },
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: false,
+            pickerOptions: selectClientConfig,
+            hint: "Verifies the access token of the request if the payload holds no claims, and fetches the user for confirmation rules after local verification.",
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            hint: "Default is the session cookie in cookie session mode, otherwise the authorization header.",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+        ],
+        controller: "Authorize",
+      },
+
       {
         name: "Refresh Session",
         type: "Middleware",
@@ -304,8 +716,8 @@ export default function functionManifest(): ModuleManifest {
             name: "refreshToken",
             label: "Refresh token",
             type: "String",
-            required: true,
-            hint: "If passed by payload is checked, kindly provide a refresh token payload key.",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
           },
           {
             name: "passByPayload",
@@ -317,6 +729,2325 @@ export default function functionManifest(): ModuleManifest {
         ],
         controller: "refreshSession",
       },
+
+      {
+        name: "Sign Out",
+        type: "Middleware",
+        description: "Signs out the user and revokes the session with Supabase",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "scope",
+            label: "Scope",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "global",
+            pickerOptions: [
+              { label: "Global (all sessions)", value: "global" },
+              { label: "Local (current session)", value: "local" },
+              { label: "Others (all except current session)", value: "others" },
+            ],
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+        ],
+        controller: "SignOut",
+      },
+
+      {
+        name: "Reset Password",
+        type: "Middleware",
+        description: "Sends a Supabase password recovery email",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "callbackURL",
+            type: "String",
+            label: "Callback URL",
+            required: false,
+            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /[client config] /recovery`,
+          },
+        ],
+        controller: "ResetPassword",
+      },
+
+      {
+        name: "Update Password",
+        type: "Middleware",
+        description:
+          "Sets a new password for the user of a (recovery) session with Supabase",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "New password",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch password from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: true,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "UpdatePassword",
+      },
+
+      {
+        name: "Update User",
+        type: "Middleware",
+        description:
+          "Updates the email, phone, password or metadata of the signed in Supabase user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            required: false,
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "Password",
+            required: false,
+          },
+          {
+            name: "nonce",
+            type: "String",
+            label: "Reauthentication nonce",
+            required: false,
+            hint: "Required to change the password when secure password change is enabled.",
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User data",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "emailRedirectTo",
+            type: "String",
+            label: "Email change redirect URL",
+            required: false,
+          },
+          {
+            name: "requestNonce",
+            type: "Checkbox",
+            label: "Request nonce",
+            hint: "Only send a reauthentication nonce to the user instead of updating it.",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email/Phone, password, nonce and user data from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: true,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "UpdateUser",
+      },
+
+      {
+        name: "MFA Enroll",
+        type: "Middleware",
+        description: "Enrolls a TOTP or phone factor for the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "factorType",
+            type: "SelectPicker",
+            label: "Factor type",
+            required: true,
+            defaultValue: "totp",
+            pickerOptions: [
+              { label: "TOTP", value: "totp" },
+              { label: "Phone", value: "phone" },
+            ],
+          },
+          {
+            name: "friendlyName",
+            type: "String",
+            label: "Friendly name",
+            required: false,
+          },
+          {
+            name: "issuer",
+            type: "String",
+            label: "Issuer",
+            hint: "Shown in the authenticator app for TOTP factors.",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            hint: "Required for phone factors.",
+            required: false,
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch friendlyName and phone from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "MFAEnroll",
+      },
+
+      {
+        name: "MFA List Factors",
+        type: "Middleware",
+        description: "Lists the MFA factors of the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "MFAListFactors",
+      },
+
+      {
+        name: "MFA Unenroll",
+        type: "Middleware",
+        description: "Removes an MFA factor of the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "factorId",
+            type: "String",
+            label: "Factor ID",
+            required: false,
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch factorId from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "MFAUnenroll",
+      },
+
+      {
+        name: "MFA Challenge",
+        type: "Middleware",
+        description:
+          "Creates a challenge for an MFA factor of the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "factorId",
+            type: "String",
+            label: "Factor ID",
+            required: false,
+          },
+          {
+            name: "channel",
+            type: "SelectPicker",
+            label: "Channel",
+            hint: "Only used for phone factors.",
+            required: false,
+            defaultValue: "sms",
+            pickerOptions: [
+              { label: "SMS", value: "sms" },
+              { label: "WhatsApp", value: "whatsapp" },
+            ],
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch factorId from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "MFAChallenge",
+      },
+
+      {
+        name: "MFA Verify",
+        type: "Middleware",
+        description:
+          "Verifies an MFA challenge and returns the upgraded aal2 session",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "factorId",
+            type: "String",
+            label: "Factor ID",
+            required: false,
+          },
+          {
+            name: "challengeId",
+            type: "String",
+            label: "Challenge ID",
+            hint: "Leave empty to create and verify a TOTP challenge in one step.",
+            required: false,
+          },
+          {
+            name: "code",
+            type: "String",
+            label: "Code",
+            required: false,
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch factorId, challengeId and code from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "MFAVerify",
+      },
+
+      {
+        name: "Link Identity",
+        type: "Middleware",
+        description:
+          "Links an email, phone or OAuth identity to the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "identityType",
+            label: "Identity type",
+            type: "SelectPicker",
+            required: true,
+            defaultValue: "email",
+            pickerOptions: [
+              { label: "Email and password", value: "email" },
+              { label: "Phone", value: "phone" },
+              { label: "OAuth provider", value: "oauth" },
+            ],
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            required: false,
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "Password",
+            required: false,
+          },
+          {
+            name: "provider",
+            type: "SelectPicker",
+            label: "Provider",
+            required: false,
+            pickerOptions: selectOauthProvider,
+            hint: "Manual linking has to be enabled in the auth settings of the project.",
+          },
+          {
+            name: "callbackURL",
+            type: "String",
+            label: "Callback URL",
+            required: false,
+            hint: `Email confirmation redirect or OAuth callback. Default for OAuth: ${server.baseUrl} /api /auth /supabase /callback /[client config] /[provider]`,
+          },
+          {
+            name: "scopes",
+            type: "String",
+            label: "Scopes",
+            required: false,
+            hint: "Additional provider scopes, separated by spaces or commas.",
+          },
+          {
+            name: "queryParams",
+            type: "Code",
+            label: "Query params",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: "Additional query parameters of the provider authorization URL.",
+          },
+          {
+            name: "skipBrowserRedirect",
+            type: "Checkbox",
+            label: "Skip browser redirect",
+            required: false,
+            defaultValue: true,
+            hint: "Only return the link URL. Uncheck to redirect the browser to the provider.",
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch email, phone, password and provider from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "LinkIdentity",
+      },
+
+      {
+        name: "List Identities",
+        type: "Middleware",
+        description: "Lists the identities linked to the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "ListIdentities",
+      },
+
+      {
+        name: "Unlink Identity",
+        type: "Middleware",
+        description: "Unlinks an identity from the signed in user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "identityId",
+            type: "String",
+            label: "Identity ID",
+            required: false,
+          },
+          {
+            name: "provider",
+            type: "SelectPicker",
+            label: "Provider",
+            required: false,
+            pickerOptions: selectOauthProvider,
+            hint: "Used if no identity ID is given.",
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch identityId and provider from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "tokenFrom",
+            label: "Access token from",
+            type: "SelectPicker",
+            required: false,
+            defaultValue: "header",
+            pickerOptions: [
+              { label: "Authorization header", value: "header" },
+              { label: "Payload", value: "payload" },
+              { label: "Cookie", value: "cookie" },
+            ],
+          },
+          {
+            name: "tokenKey",
+            label: "Token key",
+            type: "String",
+            required: false,
+            hint: "Payload key or cookie name holding the access token. Default: msg.accessToken for payload, the access token cookie of the configuration (e.g. sb-access-token) for cookie.",
+          },
+          {
+            name: "refreshToken",
+            label: "Refresh token",
+            type: "String",
+            required: false,
+            hint: "If passed by payload is checked, kindly provide a refresh token payload key. Falls back to the refresh token cookie in cookie session mode.",
+          },
+          {
+            name: "passByPayload",
+            label: "Pass by payload",
+            type: "Checkbox",
+            required: false,
+            hint: "If checked, kindly provide a refresh token payload key.",
+          },
+        ],
+        controller: "UnlinkIdentity",
+      },
+
+      {
+        name: "Admin List Users",
+        type: "Middleware",
+        description: "Lists the Supabase users page by page",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "page",
+            type: "Number",
+            label: "Page",
+            required: false,
+            defaultValue: 1,
+          },
+          {
+            name: "perPage",
+            type: "Number",
+            label: "Users per page",
+            required: false,
+            defaultValue: 50,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch page and perPage from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminListUsers",
+      },
+
+      {
+        name: "Admin Get User",
+        type: "Middleware",
+        description: "Retrieves a Supabase user by ID",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "userId",
+            type: "String",
+            label: "User ID",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch the user id from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminGetUser",
+      },
+
+      {
+        name: "Admin Create User",
+        type: "Middleware",
+        description: "Creates a Supabase user",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            required: false,
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "Password",
+            required: false,
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User metadata",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "appData",
+            type: "Code",
+            label: "App metadata",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "emailConfirm",
+            type: "Checkbox",
+            label: "Confirm email",
+            required: false,
+          },
+          {
+            name: "phoneConfirm",
+            type: "Checkbox",
+            label: "Confirm phone",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email/Phone, password, uData, appData, emailConfirm and phoneConfirm from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminCreateUser",
+      },
+
+      {
+        name: "Admin Update User",
+        type: "Middleware",
+        description: "Updates a Supabase user by ID",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "userId",
+            type: "String",
+            label: "User ID",
+            required: false,
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "Phone",
+            type: "String",
+            label: "Phone",
+            required: false,
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "Password",
+            required: false,
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User metadata",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "appData",
+            type: "Code",
+            label: "App metadata",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "emailConfirm",
+            type: "Checkbox",
+            label: "Confirm email",
+            required: false,
+          },
+          {
+            name: "phoneConfirm",
+            type: "Checkbox",
+            label: "Confirm phone",
+            required: false,
+          },
+          {
+            name: "banDuration",
+            type: "String",
+            label: "Ban duration",
+            required: false,
+            hint: "Duration like '24h' or '10m'. Use 'none' to lift a ban.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch id, Email/Phone, password, uData, appData, emailConfirm, phoneConfirm and banDuration from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminUpdateUser",
+      },
+
+      {
+        name: "Admin Delete User",
+        type: "Middleware",
+        description: "Deletes a Supabase user by ID",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "userId",
+            type: "String",
+            label: "User ID",
+            required: false,
+          },
+          {
+            name: "softDelete",
+            type: "Checkbox",
+            label: "Soft delete",
+            hint: "Keep the user with its identifying data obfuscated instead of removing it.",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch the user id from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminDeleteUser",
+      },
+
+      {
+        name: "Admin Invite User",
+        type: "Middleware",
+        description: "Invites a user to Supabase by email",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User data",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "redirectTo",
+            type: "String",
+            label: "Redirect URL",
+            required: false,
+            hint: "Leave blank to use the site URL of the project.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email and uData from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "AdminInviteUser",
+      },
+
+      {
+        name: "Admin Generate Link",
+        type: "Middleware",
+        description:
+          "Generates a Supabase email action link without sending the email",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+            hint: "The configuration must use a service-role key.",
+          },
+          {
+            name: "type",
+            label: "Link type",
+            type: "SelectPicker",
+            required: true,
+            defaultValue: "magiclink",
+            pickerOptions: [
+              "signup",
+              "invite",
+              "magiclink",
+              "recovery",
+              "email_change_current",
+              "email_change_new",
+            ],
+          },
+          {
+            name: "email",
+            type: "String",
+            label: "Email",
+            required: false,
+          },
+          {
+            name: "newEmail",
+            type: "String",
+            label: "New email",
+            required: false,
+            hint: "Required for email change links.",
+          },
+          {
+            name: "password",
+            type: "HiddenString",
+            label: "Password",
+            required: false,
+            hint: "Required for signup links.",
+          },
+
+          {
+            name: "uData",
+            type: "Code",
+            label: "User data",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: "Used by signup, invite and magiclink links.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch Email, newEmail, password and uData from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "callbackURL",
+            type: "String",
+            label: "Callback URL",
+            required: false,
+            hint: `Leave blank if you want to use the default callback URL. Default: ${server.baseUrl} /api /auth /supabase /callback /[client config] /[OTP or recovery]. Send the returned callback_link, the action_link hands the session over in the URL fragment which the callback cannot read.`,
+          },
+        ],
+        controller: "AdminGenerateLink",
+      },
+
+      {
+        name: "Database",
+        type: "Middleware",
+        description:
+          "Runs a select, insert, update, upsert or delete query on a Supabase table",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "schema",
+            type: "String",
+            label: "Schema",
+            required: false,
+            defaultValue: "public",
+          },
+          {
+            name: "table",
+            type: "String",
+            label: "Table",
+            required: true,
+          },
+          {
+            name: "operation",
+            type: "SelectPicker",
+            label: "Operation",
+            required: true,
+            defaultValue: "select",
+            pickerOptions: ["select", "insert", "update", "upsert", "delete"],
+          },
+          {
+            name: "columns",
+            type: "String",
+            label: "Columns",
+            required: false,
+            hint: "Columns to select or return. Default is '*'.",
+          },
+
+          {
+            name: "values",
+            type: "Code",
+            label: "Values",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+            hint: "Row object or array of rows for insert, update and upsert.",
+          },
+          {
+            name: "valuesFromPayload",
+            type: "Checkbox",
+            label: "Values from payload",
+            hint: "Fetch the values from the payload key.",
+            required: false,
+          },
+          {
+            name: "valuesPayloadKey",
+            type: "String",
+            label: "Values payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+
+          {
+            name: "filters",
+            type: "Code",
+            label: "Filters",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "[]",
+            hint: 'Example: [{ "column": "id", "operator": "eq", "payloadKey": "msg.id" }]. Operators: eq, neq, gt, gte, lt, lte, in, like, ilike, is, contains.',
+          },
+          {
+            name: "onConflict",
+            type: "String",
+            label: "On conflict",
+            required: false,
+            hint: "Comma separated unique columns used by upsert.",
+          },
+          {
+            name: "ignoreDuplicates",
+            type: "Checkbox",
+            label: "Ignore duplicates",
+            hint: "Upsert ignores conflicting rows instead of updating them.",
+            required: false,
+          },
+          {
+            name: "returnRows",
+            type: "Checkbox",
+            label: "Return rows",
+            hint: "Return the inserted, updated or deleted rows.",
+            required: false,
+          },
+          {
+            name: "orderBy",
+            type: "String",
+            label: "Order by",
+            required: false,
+          },
+          {
+            name: "ascending",
+            type: "Checkbox",
+            label: "Ascending",
+            defaultValue: true,
+            required: false,
+          },
+          {
+            name: "limit",
+            type: "Number",
+            label: "Limit",
+            required: false,
+          },
+          {
+            name: "rangeFrom",
+            type: "Number",
+            label: "Range from",
+            required: false,
+          },
+          {
+            name: "rangeTo",
+            type: "Number",
+            label: "Range to",
+            required: false,
+          },
+          {
+            name: "count",
+            type: "SelectPicker",
+            label: "Count",
+            required: false,
+            hint: "Count algorithm used for the row count.",
+            pickerOptions: ["exact", "planned", "estimated"],
+          },
+        ],
+        controller: "Database",
+      },
+
+      {
+        name: "RPC",
+        type: "Middleware",
+        description: "Calls a Postgres function with Supabase",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "schema",
+            type: "String",
+            label: "Schema",
+            required: false,
+            defaultValue: "public",
+          },
+          {
+            name: "functionName",
+            type: "String",
+            label: "Function name",
+            required: true,
+          },
+
+          {
+            name: "args",
+            type: "Code",
+            label: "Arguments",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch the function arguments from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "head",
+            type: "Checkbox",
+            label: "Head",
+            hint: "Only return the count, not the data.",
+            required: false,
+          },
+          {
+            name: "get",
+            type: "Checkbox",
+            label: "Read only (GET)",
+            hint: "Call the function with a GET request. Only for immutable or stable functions.",
+            required: false,
+          },
+          {
+            name: "count",
+            type: "SelectPicker",
+            label: "Count",
+            required: false,
+            hint: "Count algorithm used for the row count of set-returning functions.",
+            pickerOptions: ["exact", "planned", "estimated"],
+          },
+          {
+            name: "columns",
+            type: "String",
+            label: "Columns",
+            required: false,
+            hint: "Columns to select from set-returning functions.",
+          },
+
+          {
+            name: "filters",
+            type: "Code",
+            label: "Filters",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "[]",
+            hint: 'Filters for set-returning functions. Example: [{ "column": "id", "operator": "eq", "payloadKey": "msg.id" }]',
+          },
+          {
+            name: "orderBy",
+            type: "String",
+            label: "Order by",
+            required: false,
+          },
+          {
+            name: "ascending",
+            type: "Checkbox",
+            label: "Ascending",
+            defaultValue: true,
+            required: false,
+          },
+          {
+            name: "limit",
+            type: "Number",
+            label: "Limit",
+            required: false,
+          },
+          {
+            name: "rangeFrom",
+            type: "Number",
+            label: "Range from",
+            required: false,
+          },
+          {
+            name: "rangeTo",
+            type: "Number",
+            label: "Range to",
+            required: false,
+          },
+        ],
+        controller: "RPC",
+      },
+
+      {
+        name: "Storage Upload",
+        type: "Middleware",
+        description: "Uploads a file to Supabase Storage",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "path",
+            type: "String",
+            label: "Path",
+            required: false,
+            hint: "Path of the file in the bucket. Default is the uploaded file name.",
+          },
+          {
+            name: "source",
+            type: "SelectPicker",
+            label: "File from",
+            required: false,
+            defaultValue: "payload",
+            pickerOptions: [
+              { label: "Payload (buffer or base64)", value: "payload" },
+              { label: "Multipart request", value: "request" },
+            ],
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Payload key holding the file buffer or base64 string. Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "fileField",
+            type: "String",
+            label: "File field",
+            hint: "Multipart field holding the file. Default is 'file'",
+            defaultValue: "file",
+            required: false,
+          },
+          {
+            name: "contentType",
+            type: "String",
+            label: "Content type",
+            required: false,
+          },
+          {
+            name: "cacheControl",
+            type: "String",
+            label: "Cache control",
+            required: false,
+            hint: "Seconds the file is cached. Default is 3600.",
+          },
+          {
+            name: "upsert",
+            type: "Checkbox",
+            label: "Upsert",
+            hint: "Overwrite the file if it already exists.",
+            required: false,
+          },
+        ],
+        controller: "StorageUpload",
+      },
+
+      {
+        name: "Storage Download",
+        type: "Middleware",
+        description: "Downloads a file from Supabase Storage",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "path",
+            type: "String",
+            label: "Path",
+            required: false,
+          },
+          {
+            name: "output",
+            type: "SelectPicker",
+            label: "Output",
+            required: false,
+            defaultValue: "response",
+            pickerOptions: [
+              { label: "Stream into response", value: "response" },
+              { label: "Payload (buffer)", value: "buffer" },
+              { label: "Payload (base64)", value: "base64" },
+            ],
+          },
+          {
+            name: "attachment",
+            type: "Checkbox",
+            label: "As attachment",
+            hint: "Ask the browser to download the streamed file.",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch path from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "StorageDownload",
+      },
+
+      {
+        name: "Storage List",
+        type: "Middleware",
+        description: "Lists the files of a Supabase Storage folder",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "prefix",
+            type: "String",
+            label: "Folder",
+            required: false,
+          },
+          {
+            name: "search",
+            type: "String",
+            label: "Search",
+            required: false,
+          },
+          {
+            name: "limit",
+            type: "Number",
+            label: "Limit",
+            required: false,
+            defaultValue: 100,
+          },
+          {
+            name: "offset",
+            type: "Number",
+            label: "Offset",
+            required: false,
+          },
+          {
+            name: "sortBy",
+            type: "SelectPicker",
+            label: "Sort by",
+            required: false,
+            pickerOptions: [
+              "name",
+              "created_at",
+              "updated_at",
+              "last_accessed_at",
+            ],
+          },
+          {
+            name: "sortOrder",
+            type: "SelectPicker",
+            label: "Sort order",
+            required: false,
+            defaultValue: "asc",
+            pickerOptions: ["asc", "desc"],
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch prefix, search, limit and offset from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "StorageList",
+      },
+
+      {
+        name: "Storage Move",
+        type: "Middleware",
+        description: "Moves or copies a file in Supabase Storage",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "operation",
+            type: "SelectPicker",
+            label: "Operation",
+            required: false,
+            defaultValue: "move",
+            pickerOptions: ["move", "copy"],
+          },
+          {
+            name: "fromPath",
+            type: "String",
+            label: "From path",
+            required: false,
+          },
+          {
+            name: "toPath",
+            type: "String",
+            label: "To path",
+            required: false,
+          },
+          {
+            name: "destinationBucket",
+            type: "String",
+            label: "Destination bucket",
+            required: false,
+            hint: "Leave blank to keep the file in the same bucket.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch fromPath and toPath from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "StorageMove",
+      },
+
+      {
+        name: "Storage Remove",
+        type: "Middleware",
+        description: "Removes files from Supabase Storage",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "paths",
+            type: "String",
+            label: "Paths",
+            required: false,
+            hint: "Comma separated file paths.",
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch paths from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "StorageRemove",
+      },
+
+      {
+        name: "Storage Signed URL",
+        type: "Middleware",
+        description: "Creates signed URLs for Supabase Storage",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "bucket",
+            type: "String",
+            label: "Bucket",
+            required: true,
+          },
+          {
+            name: "urlType",
+            type: "SelectPicker",
+            label: "URL type",
+            required: false,
+            defaultValue: "download",
+            pickerOptions: [
+              { label: "Signed download URL", value: "download" },
+              { label: "Signed upload URL", value: "upload" },
+            ],
+          },
+          {
+            name: "paths",
+            type: "String",
+            label: "Paths",
+            required: false,
+            hint: "Comma separated file paths.",
+          },
+          {
+            name: "expiresIn",
+            type: "Number",
+            label: "Expires in (seconds)",
+            required: false,
+            defaultValue: 60,
+            hint: "Only for download URLs. Signed upload URLs are valid for 2 hours.",
+          },
+          {
+            name: "download",
+            type: "Checkbox",
+            label: "Force download",
+            required: false,
+          },
+          {
+            name: "upsert",
+            type: "Checkbox",
+            label: "Upsert",
+            hint: "Allow the signed upload URL to overwrite an existing file.",
+            required: false,
+          },
+
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch paths from payload body.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "StorageSignedUrl",
+      },
+
+      {
+        name: "Realtime Changes",
+        type: "EventListener",
+        description:
+          "Starts the flow for every Postgres change of a table received through Supabase Realtime",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "name",
+            type: "String",
+            label: "Trigger name",
+            hint: "Optional. Names the subscription so a Stop Realtime Trigger node can close it.",
+            required: false,
+          },
+          {
+            name: "schema",
+            type: "String",
+            label: "Schema",
+            required: false,
+            defaultValue: "public",
+          },
+          {
+            name: "table",
+            type: "String",
+            label: "Table",
+            required: true,
+          },
+          {
+            name: "event",
+            type: "SelectPicker",
+            label: "Event",
+            required: false,
+            defaultValue: "*",
+            pickerOptions: ["*", "INSERT", "UPDATE", "DELETE"],
+          },
+          {
+            name: "filter",
+            type: "String",
+            label: "Filter",
+            required: false,
+            hint: "Example: id=eq.1 or status=in.(open,closed)",
+          },
+        ],
+        controller: "RealtimeChanges",
+      },
+      {
+        name: "Broadcast Send",
+        type: "Middleware",
+        description:
+          "Broadcasts an event with a payload to a Supabase Realtime channel",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "channel",
+            type: "String",
+            label: "Channel",
+            required: true,
+          },
+          {
+            name: "event",
+            type: "String",
+            label: "Event",
+            required: true,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Payload value to broadcast. Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "BroadcastSend",
+      },
+      {
+        name: "Broadcast Receive",
+        type: "EventListener",
+        description:
+          "Starts the flow for every broadcast message received on a Supabase Realtime channel",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "name",
+            type: "String",
+            label: "Trigger name",
+            hint: "Optional. Names the subscription so a Stop Realtime Trigger node can close it.",
+            required: false,
+          },
+          {
+            name: "channel",
+            type: "String",
+            label: "Channel",
+            required: true,
+          },
+          {
+            name: "event",
+            type: "String",
+            label: "Event",
+            hint: "Leave empty or use '*' to receive every event.",
+            defaultValue: "*",
+            required: false,
+          },
+        ],
+        controller: "BroadcastReceive",
+      },
+      {
+        name: "Stop Realtime Trigger",
+        type: "Middleware",
+        description:
+          "Closes the subscription of a named Realtime Changes or Broadcast Receive trigger",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "name",
+            type: "String",
+            label: "Trigger name",
+            required: true,
+          },
+        ],
+        controller: "RealtimeStopTrigger",
+      },
+      {
+        name: "Realtime Presence",
+        type: "Middleware",
+        description:
+          "Tracks or untracks a presence on a Supabase Realtime channel, or reads who is online",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "channel",
+            type: "String",
+            label: "Channel",
+            required: true,
+          },
+          {
+            name: "operation",
+            type: "SelectPicker",
+            label: "Operation",
+            required: true,
+            defaultValue: "state",
+            pickerOptions: [
+              { label: "Online state", value: "state" },
+              { label: "Track", value: "track" },
+              { label: "Untrack", value: "untrack" },
+            ],
+          },
+          {
+            name: "presenceKey",
+            type: "String",
+            label: "Presence key",
+            hint: "Identifies the tracked presence, e.g. a user ID. Required for track and untrack.",
+            required: false,
+          },
+          {
+            name: "presenceState",
+            type: "Code",
+            label: "Presence state",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "fromPayload",
+            type: "Checkbox",
+            label: "From payload",
+            hint: "Fetch the presence key and state from payload body as 'key' and 'state'.",
+            required: false,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+        ],
+        controller: "RealtimePresence",
+      },
+      {
+        name: "Edge Function",
+        type: "Middleware",
+        description: "Invokes a Supabase Edge Function",
+        inputs: [
+          {
+            name: "client",
+            label: "Client",
+            type: "SelectPicker",
+            required: true,
+            pickerOptions: selectClientConfig,
+          },
+          {
+            name: "functionName",
+            type: "String",
+            label: "Function name",
+            required: true,
+          },
+          {
+            name: "method",
+            type: "SelectPicker",
+            label: "Method",
+            required: false,
+            defaultValue: "POST",
+            pickerOptions: ["POST", "GET", "PUT", "PATCH", "DELETE"],
+          },
+          {
+            name: "headers",
+            type: "Code",
+            label: "Headers",
+            codeLanguage: "json",
+            required: false,
+            defaultValue: "{}",
+          },
+          {
+            name: "sendBody",
+            type: "Checkbox",
+            label: "Send body",
+            hint: "Send the payload value as request body.",
+            required: false,
+            defaultValue: true,
+          },
+          {
+            name: "payloadKey",
+            type: "String",
+            label: "Payload key",
+            hint: "Payload value sent as body. Default is 'msg'",
+            defaultValue: "msg",
+            required: false,
+          },
+          {
+            name: "forwardAuthorization",
+            type: "Checkbox",
+            label: "Forward authorization",
+            hint: "Forward the caller's Authorization header so the function runs as the end user.",
+            required: false,
+          },
+          {
+            name: "binaryOutput",
+            type: "SelectPicker",
+            label: "Binary output",
+            required: false,
+            defaultValue: "buffer",
+            pickerOptions: [
+              { label: "Payload (buffer)", value: "buffer" },
+              { label: "Payload (base64)", value: "base64" },
+            ],
+          },
+        ],
+        controller: "EdgeFunction",
+      },
     ],
   };
 }
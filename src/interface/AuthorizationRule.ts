@@ -0,0 +1,49 @@
+/**
+ * Interface representing a rule of the Authorize node.
+ * Every property set on a rule has to match for the rule to pass.
+ * @interface AuthorizationRule
+ */
+export interface AuthorizationRule {
+  /**
+   * The name returned when the rule fails. Default is "rule <index>".
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * The user needs at least one of the roles in app_metadata.roles or app_metadata.role.
+   * @type {string[]}
+   */
+  roles?: string[];
+
+  /**
+   * JWT claims the user needs, e.g. claims added by a custom access token hook.
+   * Nested claims are dot separated. An array value accepts any of its values.
+   * @type {Record<string, any>}
+   */
+  claims?: Record<string, any>;
+
+  /**
+   * Whether the email of the user has to be confirmed.
+   * @type {boolean}
+   */
+  emailConfirmed?: boolean;
+
+  /**
+   * Whether the phone of the user has to be confirmed.
+   * @type {boolean}
+   */
+  phoneConfirmed?: boolean;
+
+  /**
+   * The session needs at least one of the authentication methods of the amr claim, e.g. "totp" or "password".
+   * @type {string[]}
+   */
+  amr?: string[];
+
+  /**
+   * The user needs an identity of at least one of the providers.
+   * @type {string[]}
+   */
+  providers?: string[];
+}
@@ -0,0 +1,60 @@
+/**
+ * Interface representing a file of a parsed multipart request.
+ * @interface MultipartFile
+ * @property {string} filepath - The path of the temporary file.
+ * @property {string} path - The path of the temporary file, as named by older body parsers.
+ * @property {string} originalFilename - The file name sent by the client.
+ * @property {string} name - The file name sent by the client, as named by older body parsers.
+ * @property {string} mimetype - The content type sent by the client.
+ * @property {string} type - The content type sent by the client, as named by older body parsers.
+ */
+export interface MultipartFile {
+  /**
+   * The path of the temporary file.
+   * @type {string}
+   */
+  filepath?: string;
+
+  /**
+   * The path of the temporary file, as named by older body parsers.
+   * @type {string}
+   */
+  path?: string;
+
+  /**
+   * The file name sent by the client.
+   * @type {string}
+   */
+  originalFilename?: string;
+
+  /**
+   * The file name sent by the client, as named by older body parsers.
+   * @type {string}
+   */
+  name?: string;
+
+  /**
+   * The content type sent by the client.
+   * @type {string}
+   */
+  mimetype?: string;
+
+  /**
+   * The content type sent by the client, as named by older body parsers.
+   * @type {string}
+   */
+  type?: string;
+}
+
+/**
+ * Interface representing the files a multipart body parser adds to the request, keyed by the form field.
+ * @interface MultipartRequest
+ * @property {Record<string, MultipartFile | MultipartFile[]>} files - The uploaded files.
+ */
+export interface MultipartRequest {
+  /**
+   * The uploaded files keyed by the form field.
+   * @type {Record<string, MultipartFile | MultipartFile[]>}
+   */
+  files?: Record<string, MultipartFile | MultipartFile[]>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Interface representing the provider options of an OAuth authorization URL.
+ * @interface OauthOptions
+ * @property {string} scopes - The space separated scopes requested from the provider.
+ * @property {Record<string, string>} queryParams - Additional query parameters of the authorization URL.
+ */
+export interface OauthOptions {
+  /**
+   * The space separated scopes requested from the provider.
+   * @type {string}
+   */
+  scopes?: string;
+
+  /**
+   * Additional query parameters of the authorization URL, e.g. access_type=offline or prompt=consent.
+   * @type {Record<string, string>}
+   */
+  queryParams?: Record<string, string>;
+}
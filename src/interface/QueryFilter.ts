@@ -0,0 +1,85 @@
+/**
+ * Filter operators supported by the Database and RPC nodes.
+ */
+export type QueryFilterOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "like"
+  | "ilike"
+  | "is"
+  | "contains";
+
+/**
+ * Interface representing a single filter of a query.
+ * @interface QueryFilter
+ * @property {string} column - The column to filter on.
+ * @property {QueryFilterOperator} operator - The filter operator.
+ * @property {any} value - The value to compare the column with.
+ * @property {string} payloadKey - Payload key to read the value from instead of the value property.
+ */
+export interface QueryFilter {
+  /**
+   * The column to filter on.
+   * @type {string}
+   */
+  column: string;
+
+  /**
+   * The filter operator.
+   * @type {QueryFilterOperator}
+   */
+  operator: QueryFilterOperator;
+
+  /**
+   * The value to compare the column with.
+   * @type {any}
+   */
+  value?: any;
+
+  /**
+   * Payload key to read the value from instead of the value property. Nested keys are dot separated.
+   * @type {string}
+   */
+  payloadKey?: string;
+}
+
+/**
+ * Interface representing the ordering, limit and range of a query.
+ * @interface QueryModifiers
+ */
+export interface QueryModifiers {
+  /**
+   * The column to order the result by.
+   * @type {string}
+   */
+  orderBy?: string;
+
+  /**
+   * Whether the result is ordered ascending. Default is true.
+   * @type {boolean}
+   */
+  ascending?: boolean;
+
+  /**
+   * The maximum number of rows returned.
+   * @type {number}
+   */
+  limit?: number;
+
+  /**
+   * The index of the first row returned, starting at 0.
+   * @type {number}
+   */
+  rangeFrom?: number;
+
+  /**
+   * The index of the last row returned, inclusive.
+   * @type {number}
+   */
+  rangeTo?: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Interface representing the redirects of the OAuth callback of a configuration.
+ * @interface RedirectOptions
+ * @property {string} successURL - The URL the callback redirects to after a successful login.
+ * @property {string} failureURL - The URL the callback redirects to after a failed login.
+ * @property {string[]} allowlist - The origins and paths redirects are allowed to.
+ */
+export interface RedirectOptions {
+  /**
+   * The URL the callback redirects to after a successful login, unless a valid "next" URL is given.
+   * @type {string}
+   */
+  successURL?: string;
+
+  /**
+   * The URL the callback redirects to after a failed login.
+   * @type {string}
+   */
+  failureURL?: string;
+
+  /**
+   * The origins (e.g. "https://app.example.com") and paths (e.g. "https://app.example.com/account/*") redirects are allowed to.
+   * @type {string[]}
+   */
+  allowlist: string[];
+}
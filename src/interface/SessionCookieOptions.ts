@@ -0,0 +1,33 @@
+/**
+ * Interface representing the cookie session mode of a configuration.
+ * @interface SessionCookieOptions
+ * @property {string} prefix - The prefix of the cookie names.
+ * @property {"lax" | "strict" | "none"} sameSite - The SameSite attribute of the cookies.
+ * @property {boolean} secure - Whether the cookies are only sent over HTTPS.
+ * @property {string} domain - The domain of the cookies.
+ */
+export interface SessionCookieOptions {
+  /**
+   * The prefix of the cookie names, e.g. "sb" for "sb-access-token".
+   * @type {string}
+   */
+  prefix: string;
+
+  /**
+   * The SameSite attribute of the cookies.
+   * @type {"lax" | "strict" | "none"}
+   */
+  sameSite: "lax" | "strict" | "none";
+
+  /**
+   * Whether the cookies are only sent over HTTPS.
+   * @type {boolean}
+   */
+  secure: boolean;
+
+  /**
+   * The domain of the cookies. Default is the host of the request.
+   * @type {string}
+   */
+  domain?: string;
+}
@@ -0,0 +1,57 @@
+import { SessionCookieOptions } from "./SessionCookieOptions";
+import { RedirectOptions } from "./RedirectOptions";
+
+/**
+ * Interface representing the settings a Supabase client was created with.
+ * @interface SupabaseClientSettings
+ * @property {string} projectURL - The URL of the Supabase project.
+ * @property {string} apiKey - The API key the client was created with.
+ * @property {boolean} serviceRole - Whether the API key is a service-role (secret) key.
+ * @property {string} jwtSecret - The JWT secret of the project used to verify access tokens locally.
+ * @property {SessionCookieOptions} sessionCookies - The cookie session mode options, if enabled.
+ * @property {boolean} pkceFlowParam - Whether the PKCE flow ID is appended to redirect URLs.
+ * @property {RedirectOptions} redirects - The redirects of the OAuth callback.
+ */
+export interface SupabaseClientSettings {
+  /**
+   * The URL of the Supabase project.
+   * @type {string}
+   */
+  projectURL: string;
+
+  /**
+   * The API key the client was created with.
+   * @type {string}
+   */
+  apiKey: string;
+
+  /**
+   * Whether the API key is a service-role (secret) key which allows admin operations.
+   * @type {boolean}
+   */
+  serviceRole: boolean;
+
+  /**
+   * The JWT secret of the project used to verify HS256 access tokens locally.
+   * @type {string}
+   */
+  jwtSecret?: string;
+
+  /**
+   * The cookie session mode options. Sessions are only stored in cookies if set.
+   * @type {SessionCookieOptions}
+   */
+  sessionCookies?: SessionCookieOptions;
+
+  /**
+   * Whether the PKCE flow ID is appended to redirect URLs, so logins also finish in browsers without the flow cookie.
+   * @type {boolean}
+   */
+  pkceFlowParam?: boolean;
+
+  /**
+   * The redirects of the OAuth callback. The callback answers with JSON if no success or failure URL is set.
+   * @type {RedirectOptions}
+   */
+  redirects?: RedirectOptions;
+}